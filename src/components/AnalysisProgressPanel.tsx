@@ -0,0 +1,82 @@
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { SeriesProgress } from '@/lib/analysis';
+import type { AnalysisProgress, AnalysisStage } from '@/lib/inference';
+
+const stages: { stage: AnalysisStage; label: string; description: string }[] = [
+  { stage: 'connecting', label: 'Connecting', description: 'Connecting to the AI model' },
+  { stage: 'uploading', label: 'Uploading', description: 'Uploading the MRI image' },
+  { stage: 'queued', label: 'Queued', description: 'Waiting for a free slot on the model host' },
+  { stage: 'processing', label: 'Processing', description: 'Processing image with AI model' },
+  { stage: 'parsing', label: 'Parsing', description: 'Reading the model output' },
+];
+
+const formatEta = (seconds: number) =>
+  seconds < 60 ? `${Math.ceil(seconds)}s` : `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+
+interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress | null;
+  /** Set when the analysis runs over several slices. */
+  series?: SeriesProgress | null;
+  onCancel: () => void;
+}
+
+export const AnalysisProgressPanel = ({ progress, series, onCancel }: AnalysisProgressPanelProps) => {
+  const currentIndex = progress ? stages.findIndex(({ stage }) => stage === progress.stage) : -1;
+  const current = stages[currentIndex];
+
+  return (
+    <div className="text-center py-12">
+      <div className="medical-pulse mb-4">
+        <Loader2 className="h-16 w-16 mx-auto animate-spin text-primary" />
+      </div>
+      <p className="text-lg font-medium">Analyzing brain MRI...</p>
+      <p className="text-sm text-muted-foreground">
+        {current?.description ?? 'Preparing analysis'}
+      </p>
+      {series && (
+        <p className="text-sm mt-2">
+          {series.label ?? 'Slice'} · {Math.min(series.completed + 1, series.total)} of {series.total}
+        </p>
+      )}
+
+      {progress?.stage === 'queued' && progress.queuePosition != null && (
+        <p className="text-sm mt-2">
+          Position {progress.queuePosition + 1}
+          {progress.queueSize != null && ` of ${progress.queueSize}`} in queue
+        </p>
+      )}
+      {progress?.etaSeconds != null && (
+        <p className="text-sm text-muted-foreground">
+          Estimated wait: {formatEta(progress.etaSeconds)}
+        </p>
+      )}
+
+      <ol className="flex flex-wrap justify-center gap-x-4 gap-y-2 mt-6 text-xs">
+        {stages.map(({ stage, label }, index) => (
+          <li
+            key={stage}
+            className={cn(
+              'flex items-center gap-1',
+              index < currentIndex && 'text-success',
+              index === currentIndex && 'text-primary font-semibold',
+              index > currentIndex && 'text-muted-foreground'
+            )}
+          >
+            {index < currentIndex ? (
+              <CheckCircle2 className="h-3 w-3" />
+            ) : (
+              <span className="h-1.5 w-1.5 rounded-full bg-current" />
+            )}
+            {label}
+          </li>
+        ))}
+      </ol>
+
+      <Button variant="outline" className="mt-6" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
@@ -1,24 +1,156 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Upload, Brain, FileImage, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AnalysisProgressPanel } from '@/components/AnalysisProgressPanel';
+import { DicomDeidentificationDiff } from '@/components/DicomDeidentificationDiff';
+import { DicomMetadataPanel } from '@/components/DicomMetadataPanel';
+import { EndpointHealthIndicator } from '@/components/EndpointHealthIndicator';
+import { ImageViewer } from '@/components/ImageViewer';
+import { NiftiVolumeViewer } from '@/components/NiftiVolumeViewer';
+import { OutOfDomainNotice } from '@/components/OutOfDomainNotice';
+import { PreprocessingEditor } from '@/components/PreprocessingEditor';
+import { QualityReportPanel } from '@/components/QualityReportPanel';
+import { RedactionEditor } from '@/components/RedactionEditor';
+import { SlicePredictionChart } from '@/components/SlicePredictionChart';
+import { SliceStrip } from '@/components/SliceStrip';
+import { StrippedMetadataPanel } from '@/components/StrippedMetadataPanel';
+import { StudyInputForm } from '@/components/StudyInputForm';
+import { StudySequenceResults } from '@/components/StudySequenceResults';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, Brain, FileImage, AlertCircle, CheckCircle2, FlaskConical, RotateCcw, XCircle, History, Box, FolderOpen, EyeOff, Palette } from 'lucide-react';
+import { useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Client } from "@gradio/client";
+import { useConfig } from '@/hooks/use-config';
+import { useDisplaySettings } from '@/hooks/use-display-settings';
+import { useAnalysis } from '@/hooks/use-analysis';
+import { useEndpointHealth, useEndpointMetadata } from '@/hooks/use-endpoint';
+import {
+  uploadAcceptAttribute,
+  UploadValidationError,
+  validateInput,
+  validateUpload,
+  type AnalysisInput,
+} from '@/lib/analysis';
+import { analysisReducer, imageOf, initialAnalysisState, isAnalysisActive } from '@/lib/analysis-state';
+import {
+  ImagePipelineError,
+  imagePipelineStages,
+  releaseProcessedImage,
+  type ImagePipelineStage,
+  type ProcessedImage,
+} from '@/lib/image-pipeline';
+import { ImageQualityError } from '@/lib/image-quality';
+import { describePreprocessing, type PreprocessingPipeline } from '@/lib/preprocessing';
+import type { RedactionRegion } from '@/lib/redaction';
+import { createResultCache, modelFingerprint } from '@/lib/result-cache';
+import {
+  aggregationStrategies,
+  isSliceFile,
+  readDroppedFiles,
+  SeriesError,
+  type AggregationStrategy,
+} from '@/lib/series';
+import { isDefaultDisplay } from '@/lib/viewer';
+import { isNiftiFile, readNiftiFile } from '@/lib/volume';
+import {
+  createInferenceProvider,
+  createMockProvider,
+  CircuitOpenError,
+  InferenceTimeoutError,
+  isAbortError,
+  ModelError,
+  PredictionParseError,
+} from '@/lib/inference';
 import brainMriSample from '@/assets/brain-mri-sample.jpg';
 
-interface PredictionResult {
-  class: string;
-  confidence: number;
+interface AnalysisError {
+  title: string;
+  description: string;
+  /** Set when the circuit breaker is open: no request is sent before this time. */
+  retryAt?: number;
+  /** Whether sending the same file again could succeed. */
+  retryable: boolean;
 }
 
-interface ClassificationResult {
-  predictions: PredictionResult[];
-  primaryPrediction: string;
-  uploadedImage: string;
-}
+const describeError = (error: unknown): AnalysisError => {
+  if (error instanceof CircuitOpenError) {
+    return {
+      title: "Model Unavailable",
+      description: "The AI model failed repeatedly, so requests are paused to let it recover.",
+      retryAt: error.retryAt,
+      retryable: true
+    };
+  }
+  if (error instanceof InferenceTimeoutError) {
+    return {
+      title: "Analysis Timed Out",
+      description: `The AI model did not respond in time (${error.stage} stage). Please try again.`,
+      retryable: true
+    };
+  }
+  if (error instanceof UploadValidationError) {
+    return {
+      title: error.title,
+      description: error.message,
+      retryable: false
+    };
+  }
+  if (error instanceof ImagePipelineError) {
+    return {
+      title: "Invalid Image",
+      description: error.message,
+      retryable: false
+    };
+  }
+  if (error instanceof ImageQualityError) {
+    return {
+      title: "Image Quality Too Low",
+      description: `${error.message}. See the quality checks for why, or submit the image anyway.`,
+      retryable: false
+    };
+  }
+  if (error instanceof SeriesError) {
+    return {
+      title: "Invalid Series",
+      description: error.message,
+      retryable: false
+    };
+  }
+  if (error instanceof ModelError) {
+    return {
+      title: "Analysis Failed",
+      description: `The AI model could not process the image: ${error.message}`,
+      retryable: false
+    };
+  }
+  if (error instanceof PredictionParseError) {
+    return {
+      title: "Analysis Failed",
+      description: `The AI model returned an unexpected response: ${error.message}`,
+      retryable: true
+    };
+  }
+  return {
+    title: "Analysis Failed",
+    description: "Failed to connect to AI model. Please check your connection and try again.",
+    retryable: true
+  };
+};
 
-const GRADIO_API_URL = "https://affddb7ddcca425d64.gradio.live/";
+const pipelineStageLabels: Record<ImagePipelineStage, string> = {
+  decoding: 'Decoding image',
+  quality: 'Checking image quality',
+  hashing: 'Computing checksum',
+  preview: 'Building preview',
+  payload: 'Preparing upload'
+};
+
+type UploadMode = 'image' | 'study';
 
 const tumorTypes = [
   { name: 'No Tumor', color: 'success', icon: CheckCircle2 },
@@ -28,11 +160,52 @@ const tumorTypes = [
 ];
 
 export const BrainTumorClassifier = () => {
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<ClassificationResult | null>(null);
+  const [analysisState, dispatch] = useReducer(analysisReducer, initialAnalysisState);
   const [dragActive, setDragActive] = useState(false);
+  const [demoMode, setDemoMode] = useState(false);
+  const [aggregation, setAggregation] = useState<AggregationStrategy>('mean');
+  const [uploadMode, setUploadMode] = useState<UploadMode>('image');
+  // An upload waits here for its burned-in text to be blacked out; a series
+  // gets the regions drawn on its first image
+  const [redacting, setRedacting] = useState<Extract<AnalysisInput, { kind: 'image' | 'files' }> | null>(null);
+  // Then to be cropped and padded
+  const [preprocessingFile, setPreprocessingFile] = useState<{ file: File; redaction: RedactionRegion[] } | null>(null);
+  // The request whose out-of-domain prediction the user asked to see; it stays
+  // shown when its series is re-aggregated
+  const [revealedRequest, setRevealedRequest] = useState<string | null>(null);
+  // Owns the preview object URL so it can be revoked when replaced
+  const processedImage = useRef<ProcessedImage | null>(null);
+  // Only the most recent upload may update the UI; older ones are aborted
+  const activeRequest = useRef<{ id: string; controller: AbortController } | null>(null);
   const { toast } = useToast();
+  const config = useConfig();
+  const modelProvider = useMemo(() => createInferenceProvider(config.inference), [config.inference]);
+  const demoProvider = useMemo(() => createMockProvider(), []);
+  const inferenceProvider = demoMode ? demoProvider : modelProvider;
+  const resultCache = useMemo(
+    () =>
+      createResultCache({
+        ttlMs: config.cache.ttlMs,
+        model: modelFingerprint(config.inference, config.cache.modelVersion),
+      }),
+    [config.cache.ttlMs, config.cache.modelVersion, config.inference]
+  );
+  const endpointHealth = useEndpointHealth(modelProvider, config.inference.health.intervalMs);
+  const endpointMetadata = useEndpointMetadata(modelProvider);
+  const analysis = useAnalysis();
+  const volumeLoader = useMutation({
+    mutationKey: ['volume'],
+    mutationFn: async (file: File) => ({ file, volume: await readNiftiFile(file) }),
+  });
+  const preparedImage = imageOf(analysisState);
+  const uploadedImage = preparedImage?.previewUrl ?? null;
+  const lastInput = analysisState.status === 'idle' ? null : analysisState.input;
+  const [displaySettings, setDisplaySettings] = useDisplaySettings(preparedImage?.hash ?? null);
+  const result = analysisState.status === 'succeeded' ? analysisState.result : null;
+  const resultRequestId = analysisState.status === 'succeeded' ? analysisState.requestId : null;
+  const hidePrediction = result?.domain?.outOfDomain && revealedRequest !== resultRequestId;
+  const error = analysisState.status === 'failed' ? describeError(analysisState.error) : null;
+  const { maxFileSizeMb } = config.upload;
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -44,147 +217,247 @@ export const BrainTumorClassifier = () => {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Not memoized: it must reach the latest handleFiles, and with it the current provider and aggregation
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileUpload(e.dataTransfer.files[0]);
-    }
-  }, []);
+    readDroppedFiles(e.dataTransfer).then(handleFiles);
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileUpload(e.target.files[0]);
+    if (e.target.files) {
+      handleFiles(Array.from(e.target.files));
     }
+    // Lets the same selection be picked again
+    e.target.value = '';
   };
 
-  const handleFileUpload = async (file: File) => {
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
+  const cancelActiveRequest = () => {
+    activeRequest.current?.controller.abort();
+    activeRequest.current = null;
+  };
+
+  const replaceProcessedImage = (image: ProcessedImage | null) => {
+    if (processedImage.current) {
+      releaseProcessedImage(processedImage.current);
+    }
+    processedImage.current = image;
+  };
+
+  useEffect(() => () => {
+    if (processedImage.current) {
+      releaseProcessedImage(processedImage.current);
+    }
+  }, []);
+
+  const analyze = (
+    input: AnalysisInput,
+    { skipCache = false, overrideQuality = false }: { skipCache?: boolean; overrideQuality?: boolean } = {}
+  ) => {
+    cancelActiveRequest();
+    const requestId = crypto.randomUUID();
+    dispatch({ type: 'submit', requestId, input });
+    replaceProcessedImage(null);
+
+    const invalid = validateInput(input, config.upload);
+    if (invalid) {
+      dispatch({ type: 'failed', requestId, error: invalid });
       toast({
-        title: "Invalid File Type",
-        description: "Please upload an image file (JPEG, PNG, etc.)",
+        title: invalid.title,
+        description: invalid.message,
         variant: "destructive"
       });
       return;
     }
+    dispatch({ type: 'validated', requestId });
+
+    const controller = new AbortController();
+    activeRequest.current = { id: requestId, controller };
+
+    analysis.mutate(
+      {
+        requestId,
+        input,
+        provider: inferenceProvider,
+        // Demo results are fabricated, so they are never cached
+        cache: config.cache.enabled && inferenceProvider.kind !== 'mock' ? resultCache : null,
+        skipCache,
+        overrideQuality,
+        aggregation,
+        deidentification: config.deidentification,
+        signal: controller.signal,
+        onPreparationProgress: (stage) => dispatch({ type: 'preparing', requestId, stage }),
+        onImageReady: (image) => {
+          if (activeRequest.current?.id !== requestId) {
+            releaseProcessedImage(image);
+            return;
+          }
+          replaceProcessedImage(image);
+          dispatch({ type: 'imageReady', requestId, image });
+        },
+        onProgress: (progress) => dispatch({ type: 'progress', requestId, progress }),
+        onSeriesProgress: (series) => dispatch({ type: 'seriesProgress', requestId, series }),
+      },
+      {
+        // Per-call callbacks only fire for the latest mutate call
+        onSuccess: (classification) => {
+          dispatch({ type: 'succeeded', requestId, result: classification });
+          if (classification.cachedAt) return;
+          if (classification.domain?.outOfDomain) {
+            toast({
+              title: "Input Outside Model's Intended Domain",
+              description: 'This does not look like a brain MRI, so no prediction is shown.',
+              variant: "destructive"
+            });
+            return;
+          }
+          const [top] = classification.predictions;
+          toast({
+            title: "Analysis Complete",
+            description: `Primary prediction: ${top.class} (${top.confidence.toFixed(1)}%)`,
+          });
+        },
+        onError: (mutationError) => {
+          // Cancellation is not a failure; the state is already 'cancelled'
+          if (isAbortError(mutationError)) return;
+          console.error('Prediction error:', mutationError);
+          dispatch({ type: 'failed', requestId, error: mutationError });
+          const analysisError = describeError(mutationError);
+          toast({
+            title: analysisError.title,
+            description: analysisError.description,
+            variant: "destructive"
+          });
+        },
+      }
+    );
+  };
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+  const openVolume = (file: File) => {
+    const invalid = validateUpload(file, config.upload);
+    if (invalid) {
       toast({
-        title: "File Too Large",
-        description: "Please upload an image smaller than 10MB",
+        title: invalid.title,
+        description: invalid.message,
         variant: "destructive"
       });
       return;
     }
+    resetAnalysis();
+    volumeLoader.mutate(file, {
+      onError: (loadError) => {
+        console.error('Volume error:', loadError);
+        toast({
+          title: "Invalid Volume",
+          description: loadError.message,
+          variant: "destructive"
+        });
+      },
+    });
+  };
 
-    try {
-      // Convert file to base64 for preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setUploadedImage(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
-
-      // Start prediction process
-      setIsLoading(true);
-      setResult(null);
-
+  const handleFileUpload = (file: File) => {
+    if (isNiftiFile(file)) {
+      openVolume(file);
+      return;
+    }
+    const invalid = validateUpload(file, config.upload);
+    if (invalid) {
       toast({
-        title: "Processing Image",
-        description: "Connecting to AI model for analysis...",
+        title: invalid.title,
+        description: invalid.message,
+        variant: "destructive"
       });
+      return;
+    }
+    volumeLoader.reset();
+    resetAnalysis();
+    setRedacting({ kind: 'image', file });
+  };
 
-      // Connect to Gradio client and make prediction
-      const client = await Client.connect(GRADIO_API_URL);
-      
-      toast({
-        title: "Analyzing...",
-        description: "AI model is processing your MRI image",
-      });
+  // A single image is cropped next; a series goes straight to the model
+  const continueRedacted = (redaction: RedactionRegion[]) => {
+    if (redacting.kind === 'image') {
+      setPreprocessingFile({ file: redacting.file, redaction });
+    } else {
+      analyze({ ...redacting, redaction });
+    }
+    setRedacting(null);
+  };
 
-      const result = await client.predict("/predict", { 
-        image: file, 
-      });
+  const analyzePreprocessed = (preprocessing: PreprocessingPipeline) => {
+    analyze({ kind: 'image', ...preprocessingFile, preprocessing });
+    setPreprocessingFile(null);
+  };
 
-      console.log('API Response:', result.data);
-
-      // Parse the prediction results
-      // The Gradio API typically returns an array with confidence scores
-      if (result.data && Array.isArray(result.data)) {
-        const predictions = result.data[0]; // Usually the first element contains the predictions
-        
-        // Map the predictions to our tumor types
-        // Adjust this mapping based on your model's actual output format
-        const mappedPredictions: PredictionResult[] = [
-          { class: 'Glioma Tumor', confidence: (predictions['glioma_tumor'] || predictions[0] || 0) * 100 },
-          { class: 'Meningioma Tumor', confidence: (predictions['meningioma_tumor'] || predictions[1] || 0) * 100 },
-          { class: 'No Tumor', confidence: (predictions['no_tumor'] || predictions[2] || 0) * 100 },
-          { class: 'Pituitary Tumor', confidence: (predictions['pituitary_tumor'] || predictions[3] || 0) * 100 }
-        ];
-
-        // Sort by confidence
-        mappedPredictions.sort((a, b) => b.confidence - a.confidence);
-
-        setResult({
-          predictions: mappedPredictions,
-          primaryPrediction: mappedPredictions[0].class,
-          uploadedImage: uploadedImage || ''
-        });
+  // Several files, or a folder, are analyzed as one series
+  const handleFiles = (files: File[]) => {
+    const slices = files.filter(isSliceFile);
+    if (slices.length === 1) {
+      handleFileUpload(slices[0]);
+    } else if (slices.length > 1) {
+      volumeLoader.reset();
+      resetAnalysis();
+      const folder = slices[0].webkitRelativePath.split('/')[0];
+      setRedacting({ kind: 'files', name: folder || `${slices.length} images`, files: slices });
+    }
+  };
 
-        toast({
-          title: "Analysis Complete",
-          description: `Primary prediction: ${mappedPredictions[0].class} (${mappedPredictions[0].confidence.toFixed(1)}%)`,
-        });
-      } else {
-        throw new Error('Unexpected API response format');
-      }
+  const changeAggregation = (strategy: AggregationStrategy) => {
+    setAggregation(strategy);
+    dispatch({ type: 'aggregate', aggregation: strategy });
+  };
 
-    } catch (error) {
-      console.error('Prediction error:', error);
-      toast({
-        title: "Analysis Failed",
-        description: "Failed to connect to AI model. Please check your connection and try again.",
-        variant: "destructive"
-      });
-      
-      // Fallback to mock data for demonstration
-      const mockPredictions: PredictionResult[] = [
-        { class: 'No Tumor', confidence: 65.2 },
-        { class: 'Glioma Tumor', confidence: 23.8 },
-        { class: 'Pituitary Tumor', confidence: 8.1 },
-        { class: 'Meningioma Tumor', confidence: 2.9 }
-      ];
-
-      setResult({
-        predictions: mockPredictions,
-        primaryPrediction: mockPredictions[0].class,
-        uploadedImage: uploadedImage || ''
-      });
+  const closeVolume = () => {
+    volumeLoader.reset();
+    resetAnalysis();
+  };
 
-      toast({
-        title: "Using Demo Mode",
-        description: "Showing sample results due to connection issue",
-        variant: "default"
-      });
+  const changeUploadMode = (mode: UploadMode) => {
+    setUploadMode(mode);
+    closeVolume();
+  };
 
-    } finally {
-      setIsLoading(false);
-    }
+  const cancelAnalysis = () => {
+    cancelActiveRequest();
+    dispatch({ type: 'cancel' });
   };
 
   const resetAnalysis = () => {
-    setUploadedImage(null);
-    setResult(null);
-    setIsLoading(false);
+    setRedacting(null);
+    setPreprocessingFile(null);
+    cancelActiveRequest();
+    replaceProcessedImage(null);
+    dispatch({ type: 'reset' });
+  };
+
+  const handleDemoModeChange = (enabled: boolean) => {
+    setDemoMode(enabled);
+    // Never leave a result on screen that came from the other mode
+    resetAnalysis();
   };
 
   return (
     <div className="min-h-screen bg-gradient-surface p-4 md:p-8">
       <div className="max-w-6xl mx-auto space-y-8">
+        {/* Demo Mode Banner */}
+        {demoMode && (
+          <div className="sticky top-4 z-10 p-4 rounded-lg bg-warning/10 border border-warning/40 backdrop-blur-sm">
+            <div className="flex items-center gap-3">
+              <FlaskConical className="h-5 w-5 text-warning flex-shrink-0" />
+              <p className="text-sm flex-1">
+                <span className="font-medium text-warning">Demo Mode is on.</span>{' '}
+                Results are simulated and are not produced by the AI model. Do not use them for any clinical purpose.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => handleDemoModeChange(false)}>
+                Exit Demo Mode
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Header */}
         <div className="text-center space-y-4 medical-fade-in">
           <div className="flex items-center justify-center gap-3 mb-6">
@@ -199,6 +472,15 @@ export const BrainTumorClassifier = () => {
             Advanced AI-powered brain tumor detection and classification system. 
             Upload an MRI image for accurate tumor type identification.
           </p>
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <EndpointHealthIndicator health={endpointHealth.data ?? null} metadata={endpointMetadata.data} />
+            <div className="flex items-center gap-2">
+              <Switch id="demo-mode" checked={demoMode} onCheckedChange={handleDemoModeChange} />
+              <Label htmlFor="demo-mode" className="text-sm text-muted-foreground">
+                Demo Mode (simulated results)
+              </Label>
+            </div>
+          </div>
         </div>
 
         <div className="grid md:grid-cols-2 gap-8">
@@ -210,7 +492,65 @@ export const BrainTumorClassifier = () => {
                 <h2 className="text-xl font-semibold">Upload MRI Image</h2>
               </div>
 
-              {!uploadedImage ? (
+              <Tabs value={uploadMode} onValueChange={(value) => changeUploadMode(value as UploadMode)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="image">Image or Series</TabsTrigger>
+                  <TabsTrigger value="study">MRI Study</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {uploadMode === 'study' ? (
+                <StudyInputForm
+                  inputs={inferenceProvider.inputs}
+                  accept={uploadAcceptAttribute(config.upload)}
+                  deidentification={config.deidentification}
+                  disabled={isAnalysisActive(analysisState)}
+                  onAnalyze={analyze}
+                />
+              ) : volumeLoader.isPending ? (
+                <div className="rounded-lg border-2 border-dashed border-border p-8 text-center space-y-4">
+                  <Box className="h-16 w-16 text-muted-foreground mx-auto animate-pulse" />
+                  <p className="text-sm text-muted-foreground">Reading volume...</p>
+                </div>
+              ) : volumeLoader.data ? (
+                <NiftiVolumeViewer
+                  file={volumeLoader.data.file}
+                  volume={volumeLoader.data.volume}
+                  disabled={isAnalysisActive(analysisState)}
+                  onAnalyze={analyze}
+                  onClose={closeVolume}
+                />
+              ) : redacting ? (
+                <RedactionEditor
+                  file={redacting.kind === 'image' ? redacting.file : redacting.files[0]}
+                  imageCount={redacting.kind === 'image' ? 1 : redacting.files.length}
+                  deidentification={config.deidentification}
+                  onContinue={continueRedacted}
+                  onCancel={resetAnalysis}
+                />
+              ) : preprocessingFile ? (
+                <PreprocessingEditor
+                  file={preprocessingFile.file}
+                  deidentification={config.deidentification}
+                  redaction={preprocessingFile.redaction}
+                  modelInput={config.inference.provider === 'onnx' ? config.inference.onnx.preprocess : null}
+                  onAnalyze={analyzePreprocessed}
+                  onCancel={resetAnalysis}
+                />
+              ) : analysisState.status === 'previewing' ? (
+                <div className="rounded-lg border-2 border-dashed border-border p-8 text-center space-y-4">
+                  <FileImage className="h-16 w-16 text-muted-foreground mx-auto animate-pulse" />
+                  <p className="text-sm text-muted-foreground">
+                    {analysisState.preparationStage ? pipelineStageLabels[analysisState.preparationStage] : 'Reading file'}...
+                  </p>
+                  <Progress
+                    value={
+                      ((imagePipelineStages.indexOf(analysisState.preparationStage) + 1) / imagePipelineStages.length) * 100
+                    }
+                    className="h-2"
+                  />
+                </div>
+              ) : !uploadedImage ? (
                 <div
                   className={`upload-zone border-2 border-dashed rounded-lg p-8 text-center transition-all cursor-pointer ${
                     dragActive
@@ -227,29 +567,87 @@ export const BrainTumorClassifier = () => {
                   <div className="space-y-2">
                     <p className="text-lg font-medium">Drop your MRI image here</p>
                     <p className="text-sm text-muted-foreground">
-                      or click to browse files
+                      or click to browse files. Drop several files or a folder to analyze a series.
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      Supports JPEG, PNG • Max 10MB
+                      Supports JPEG, PNG, DICOM, NIfTI • Max {maxFileSizeMb}MB
                     </p>
                   </div>
                   <input
                     id="file-upload"
                     type="file"
                     className="hidden"
-                    accept="image/*"
+                    accept={uploadAcceptAttribute(config.upload)}
+                    multiple
+                    onChange={handleFileSelect}
+                  />
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="mt-2"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      document.getElementById('folder-upload')?.click();
+                    }}
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                    Select a DICOM folder
+                  </Button>
+                  <input
+                    id="folder-upload"
+                    type="file"
+                    className="hidden"
+                    // Not a React attribute, so it is set on the element
+                    ref={(input) => {
+                      if (input) input.webkitdirectory = true;
+                    }}
+                    onClick={(e) => e.stopPropagation()}
                     onChange={handleFileSelect}
                   />
                 </div>
               ) : (
                 <div className="space-y-4">
-                  <div className="relative rounded-lg overflow-hidden bg-muted">
-                    <img
-                      src={uploadedImage}
-                      alt="Uploaded MRI"
-                      className="w-full h-64 object-cover"
-                    />
-                  </div>
+                  <ImageViewer
+                    image={preparedImage.payload}
+                    alt="Uploaded MRI"
+                    settings={displaySettings}
+                    onSettingsChange={setDisplaySettings}
+                    actions={
+                      // The model sees the original pixels unless asked otherwise
+                      lastInput?.kind === 'image' &&
+                      !preparedImage.display &&
+                      !isDefaultDisplay(displaySettings) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          disabled={isAnalysisActive(analysisState)}
+                          onClick={() => analyze({ ...lastInput, display: displaySettings })}
+                        >
+                          <Palette className="h-4 w-4 mr-2" />
+                          Analyze as displayed
+                        </Button>
+                      )
+                    }
+                  />
+                  {preparedImage.redaction.length > 0 && (
+                    <Badge variant="secondary">
+                      <EyeOff className="h-3 w-3 mr-1" />
+                      {preparedImage.redaction.length} region{preparedImage.redaction.length === 1 ? '' : 's'} redacted
+                    </Badge>
+                  )}
+                  {preparedImage.display && (
+                    <Badge variant="secondary">
+                      <Palette className="h-3 w-3 mr-1" />
+                      Analyzed as displayed
+                    </Badge>
+                  )}
+                  {preparedImage?.dicom && <DicomMetadataPanel dicom={preparedImage.dicom} />}
+                  {preparedImage?.dicom?.deidentification && (
+                    <DicomDeidentificationDiff changes={preparedImage.dicom.deidentification} />
+                  )}
+                  <QualityReportPanel checks={preparedImage.quality} />
+                  {preparedImage?.strippedMetadata && <StrippedMetadataPanel entries={preparedImage.strippedMetadata} />}
                   <Button
                     variant="outline"
                     onClick={resetAnalysis}
@@ -260,44 +658,44 @@ export const BrainTumorClassifier = () => {
                 </div>
               )}
 
-              {/* Sample Image */}
-              <div className="border-t pt-4">
-                <p className="text-sm text-muted-foreground mb-3">Try with sample image:</p>
-                <div 
-                  className="relative rounded-lg overflow-hidden cursor-pointer upload-zone bg-muted"
-                  onClick={async () => {
-                    try {
-                      // Convert sample image to File object for API call
-                      const response = await fetch(brainMriSample);
-                      const blob = await response.blob();
-                      const file = new File([blob], 'sample-mri.jpg', { type: 'image/jpeg' });
-                      
-                      setUploadedImage(brainMriSample);
-                      handleFileUpload(file);
-                      
-                      toast({
-                        title: "Sample Image Loaded",
-                        description: "Analyzing sample MRI image...",
-                      });
-                    } catch (error) {
-                      toast({
-                        title: "Error",
-                        description: "Failed to load sample image",
-                        variant: "destructive"
-                      });
-                    }
-                  }}
-                >
-                  <img
-                    src={brainMriSample}
-                    alt="Sample brain MRI"
-                    className="w-full h-32 object-cover"
-                  />
-                  <div className="absolute inset-0 bg-black/20 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
-                    <p className="text-white font-medium">Click to use sample</p>
+              {uploadMode === 'image' && (
+                <div className="border-t pt-4">
+                  <p className="text-sm text-muted-foreground mb-3">Try with sample image:</p>
+                  <div 
+                    className="relative rounded-lg overflow-hidden cursor-pointer upload-zone bg-muted"
+                    onClick={async () => {
+                      try {
+                        // Convert sample image to File object for API call
+                        const response = await fetch(brainMriSample);
+                        const blob = await response.blob();
+                        const file = new File([blob], 'sample-mri.jpg', { type: 'image/jpeg' });
+                        
+                        handleFileUpload(file);
+                        
+                        toast({
+                          title: "Sample Image Loaded",
+                          description: "Black out any burned-in text and crop it, then analyze it.",
+                        });
+                      } catch (error) {
+                        toast({
+                          title: "Error",
+                          description: "Failed to load sample image",
+                          variant: "destructive"
+                        });
+                      }
+                    }}
+                  >
+                    <img
+                      src={brainMriSample}
+                      alt="Sample brain MRI"
+                      className="w-full h-32 object-cover"
+                    />
+                    <div className="absolute inset-0 bg-black/20 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
+                      <p className="text-white font-medium">Click to use sample</p>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
             </div>
           </Card>
 
@@ -309,73 +707,206 @@ export const BrainTumorClassifier = () => {
                 <h2 className="text-xl font-semibold">Analysis Results</h2>
               </div>
 
-              {!uploadedImage && !isLoading && !result && (
+              {analysisState.status === 'idle' && (
                 <div className="text-center py-12 text-muted-foreground">
                   <Brain className="h-16 w-16 mx-auto mb-4 opacity-50" />
                   <p>Upload an MRI image to see analysis results</p>
                 </div>
               )}
 
-              {isLoading && (
-                <div className="text-center py-12">
-                  <div className="medical-pulse mb-4">
-                    <Loader2 className="h-16 w-16 mx-auto animate-spin text-primary" />
+              {isAnalysisActive(analysisState) && (
+                <AnalysisProgressPanel
+                  progress={'progress' in analysisState ? analysisState.progress : null}
+                  series={'series' in analysisState ? analysisState.series : null}
+                  onCancel={cancelAnalysis}
+                />
+              )}
+
+              {analysisState.status === 'cancelled' && (
+                <div className="text-center py-12 space-y-4 text-muted-foreground">
+                  <XCircle className="h-16 w-16 mx-auto opacity-50" />
+                  <p>Analysis cancelled</p>
+                  {lastInput && (
+                    <Button variant="outline" onClick={() => analyze(lastInput)}>
+                      <RotateCcw className="h-4 w-4" />
+                      Analyze Again
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {error && (
+                <div className="text-center py-12 space-y-4">
+                  <AlertCircle className="h-16 w-16 mx-auto text-destructive" />
+                  <div className="space-y-1">
+                    <p className="text-lg font-medium">{error.title}</p>
+                    <p className="text-sm text-muted-foreground">{error.description}</p>
+                    {error.retryAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Next retry at {new Date(error.retryAt).toLocaleTimeString()}
+                      </p>
+                    )}
                   </div>
-                  <p className="text-lg font-medium">Analyzing brain MRI...</p>
-                  <p className="text-sm text-muted-foreground">
-                    Processing image with AI model
-                  </p>
+                  {lastInput && error.retryable && (
+                    <Button variant="outline" onClick={() => analyze(lastInput)}>
+                      <RotateCcw className="h-4 w-4" />
+                      Try Again
+                    </Button>
+                  )}
+                  {lastInput && analysisState.status === 'failed' && analysisState.error instanceof ImageQualityError && (
+                    <>
+                      {/* A single image's checks are already shown with its preview */}
+                      {lastInput.kind !== 'image' && (
+                        <div className="text-left">
+                          <QualityReportPanel checks={analysisState.error.checks} />
+                        </div>
+                      )}
+                      <Button variant="outline" onClick={() => analyze(lastInput, { overrideQuality: true })}>
+                        <AlertCircle className="h-4 w-4" />
+                        Submit Anyway
+                      </Button>
+                    </>
+                  )}
                 </div>
               )}
 
               {result && (
-                <div className="space-y-6 medical-fade-in">
+                <div className="relative space-y-6 medical-fade-in">
+                  {/* Demo Watermark */}
+                  {result.isDemo && (
+                    <div className="pointer-events-none absolute inset-0 flex items-center justify-center overflow-hidden" aria-hidden="true">
+                      <span className="text-7xl font-black tracking-widest text-warning/20 -rotate-12 select-none">
+                        DEMO
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Cached Result */}
+                  {result.cachedAt && (
+                    <div className="flex items-center justify-between gap-3">
+                      <Badge variant="secondary" className="gap-1">
+                        <History className="h-3 w-3" />
+                        Cached result from {new Date(result.cachedAt).toLocaleString()}
+                      </Badge>
+                      {lastInput && (
+                        <Button variant="ghost" size="sm" onClick={() => analyze(lastInput, { skipCache: true })}>
+                          <RotateCcw className="h-4 w-4" />
+                          Re-run anyway
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Out of Domain */}
+                  {hidePrediction && (
+                    <OutOfDomainNotice domain={result.domain} onShowPrediction={() => setRevealedRequest(resultRequestId)} />
+                  )}
+                  {result.domain?.outOfDomain && !hidePrediction && (
+                    <Badge variant="outline" className="gap-1 border-warning/40 text-warning">
+                      <AlertCircle className="h-3 w-3" />
+                      Outside the model's intended domain
+                    </Badge>
+                  )}
+
                   {/* Primary Prediction */}
-                  <div className="p-4 rounded-lg bg-gradient-to-r from-primary/10 to-primary-glow/10 border border-primary/20">
-                    <div className="flex items-center gap-3">
-                      <div className="p-2 rounded-full bg-primary/20">
-                        {React.createElement(
-                          tumorTypes.find(type => type.name === result.primaryPrediction)?.icon || AlertCircle,
-                          { className: "h-5 w-5 text-primary" }
-                        )}
+                  {!hidePrediction && (
+                    <div className="p-4 rounded-lg bg-gradient-to-r from-primary/10 to-primary-glow/10 border border-primary/20">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-full bg-primary/20">
+                          {React.createElement(
+                            tumorTypes.find(type => type.name === result.primaryPrediction)?.icon || AlertCircle,
+                            { className: "h-5 w-5 text-primary" }
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">
+                            {result.series
+                              ? `${aggregationStrategies.find(({ strategy }) => strategy === result.series.aggregation).label} over ${result.series.slices.length} slices`
+                              : result.study
+                                ? result.study.combination === 'model'
+                                  ? `Combined prediction from ${result.study.sequences.length} sequences`
+                                  : `Mean over ${result.study.sequences.length} sequences`
+                                : 'Primary Prediction'}
+                          </p>
+                          <p className="text-xl font-bold text-primary">{result.primaryPrediction}</p>
+                          <p className="text-sm">
+                            Confidence: {result.predictions[0].confidence.toFixed(1)}%
+                          </p>
+                        </div>
                       </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Primary Prediction</p>
-                        <p className="text-xl font-bold text-primary">{result.primaryPrediction}</p>
-                        <p className="text-sm">
-                          Confidence: {result.predictions[0].confidence.toFixed(1)}%
-                        </p>
+                    </div>
+                  )}
+
+                  {/* Study Sequences */}
+                  {result.study && !hidePrediction && (
+                    <div className="space-y-4">
+                      <h3 className="font-semibold">Sequences</h3>
+                      <StudySequenceResults study={result.study} />
+                    </div>
+                  )}
+
+                  {/* Series */}
+                  {result.series && !hidePrediction && (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between gap-3">
+                        <h3 className="font-semibold">Slices</h3>
+                        <Select value={result.series.aggregation} onValueChange={changeAggregation}>
+                          <SelectTrigger className="w-48" aria-label="Aggregation">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {aggregationStrategies.map(({ strategy, label, description }) => (
+                              <SelectItem key={strategy} value={strategy} title={description}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
+                      <SliceStrip series={result.series} />
+                      <SlicePredictionChart series={result.series} />
+                      <p className="text-xs text-muted-foreground">
+                        Highlighted slices drove the study-level prediction.
+                      </p>
                     </div>
-                  </div>
+                  )}
 
                   {/* All Predictions */}
-                  <div className="space-y-4">
-                    <h3 className="font-semibold">Detailed Analysis</h3>
-                    {result.predictions.map((prediction, index) => {
-                      const tumorType = tumorTypes.find(type => type.name === prediction.class);
-                      return (
-                        <div key={prediction.class} className="space-y-2">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              {React.createElement(tumorType?.icon || AlertCircle, {
-                                className: "h-4 w-4"
-                              })}
-                              <span className="font-medium">{prediction.class}</span>
+                  {!hidePrediction && (
+                    <div className="space-y-4">
+                      <h3 className="font-semibold">Detailed Analysis</h3>
+                      {result.predictions.map((prediction, index) => {
+                        const tumorType = tumorTypes.find(type => type.name === prediction.class);
+                        return (
+                          <div key={prediction.class} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                {React.createElement(tumorType?.icon || AlertCircle, {
+                                  className: "h-4 w-4"
+                                })}
+                                <span className="font-medium">{prediction.class}</span>
+                              </div>
+                              <span className="text-sm font-medium">
+                                {prediction.confidence.toFixed(1)}%
+                              </span>
                             </div>
-                            <span className="text-sm font-medium">
-                              {prediction.confidence.toFixed(1)}%
-                            </span>
+                            <Progress
+                              value={prediction.confidence}
+                              variant="confidence"
+                              className="h-2"
+                            />
                           </div>
-                          <Progress
-                            value={prediction.confidence}
-                            variant="confidence"
-                            className="h-2"
-                          />
-                        </div>
-                      );
-                    })}
-                  </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Preprocessing */}
+                  {result.preprocessing && (
+                    <p className="text-xs text-muted-foreground">
+                      Preprocessing: {describePreprocessing(result.preprocessing)}
+                    </p>
+                  )}
 
                   {/* Disclaimer */}
                   <div className="p-4 rounded-lg bg-warning/10 border border-warning/20">
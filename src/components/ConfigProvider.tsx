@@ -0,0 +1,76 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ConfigContext } from '@/hooks/use-config';
+import { ConfigError, loadConfig, type AppConfig } from '@/lib/config';
+
+type ConfigState =
+  | { status: 'loading' }
+  | { status: 'ready'; config: AppConfig }
+  | { status: 'error'; error: ConfigError };
+
+const toConfigError = (error: unknown) =>
+  error instanceof ConfigError
+    ? error
+    : new ConfigError(error instanceof Error ? error.message : 'Unknown error while loading configuration');
+
+const ConfigErrorScreen = ({ error }: { error: ConfigError }) => (
+  <div className="min-h-screen bg-gradient-surface flex items-center justify-center p-4">
+    <Card className="max-w-lg w-full p-6 bg-gradient-card shadow-card space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 rounded-full bg-destructive/10">
+          <AlertCircle className="h-6 w-6 text-destructive" />
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold">Configuration Error</h1>
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+        </div>
+      </div>
+      {error.issues.length > 0 && (
+        <ul className="text-sm font-mono bg-muted rounded-lg p-4 space-y-1">
+          {error.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-sm text-muted-foreground">
+        Check <code>config.json</code> and the <code>VITE_*</code> environment variables for this deployment.
+      </p>
+      <Button variant="outline" className="w-full" onClick={() => window.location.reload()}>
+        Reload
+      </Button>
+    </Card>
+  </div>
+);
+
+export const ConfigProvider = ({ children }: { children: ReactNode }) => {
+  const [state, setState] = useState<ConfigState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadConfig()
+      .then((config) => !cancelled && setState({ status: 'ready', config }))
+      .catch((error) => {
+        console.error('Configuration error:', error);
+        if (!cancelled) setState({ status: 'error', error: toConfigError(error) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gradient-surface flex items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return <ConfigErrorScreen error={state.error} />;
+  }
+
+  return <ConfigContext.Provider value={state.config}>{children}</ConfigContext.Provider>;
+};
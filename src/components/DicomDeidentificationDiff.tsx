@@ -0,0 +1,79 @@
+import { ChevronDown, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { TagChange, TagChangeKind } from '@/lib/dicom';
+
+const changeBadges: Record<TagChangeKind, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  removed: { label: 'Removed', variant: 'destructive' },
+  emptied: { label: 'Emptied', variant: 'secondary' },
+  replaced: { label: 'Replaced', variant: 'secondary' },
+  added: { label: 'Added', variant: 'default' },
+  retained: { label: 'Retained', variant: 'outline' },
+};
+
+const Value = ({ value }: { value: string | undefined }) =>
+  value === undefined ? (
+    <span className="text-muted-foreground">—</span>
+  ) : value === '' ? (
+    <span className="italic text-muted-foreground">empty</span>
+  ) : (
+    <span className="break-all font-mono text-xs">{value}</span>
+  );
+
+/** The header tags de-identification touched, with their values before and after. */
+export const DicomDeidentificationDiff = ({ changes }: { changes: TagChange[] }) => {
+  const retained = changes.filter(({ change }) => change === 'retained').length;
+
+  return (
+    <Collapsible className="rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          <h3 className="text-sm font-semibold">De-identified</h3>
+          <span className="text-xs text-muted-foreground">
+            {changes.length - retained} tags changed{retained > 0 && `, ${retained} retained by site policy`}
+          </span>
+        </div>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="group">
+            Tag diff
+            <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className="pt-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tag</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map((change) => (
+              <TableRow key={change.tag}>
+                <TableCell>
+                  <p className="font-medium">{change.name}</p>
+                  <p className="font-mono text-xs text-muted-foreground">{change.tag}</p>
+                </TableCell>
+                <TableCell>
+                  <Value value={change.before} />
+                </TableCell>
+                <TableCell>
+                  <Value value={change.after} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Badge variant={changeBadges[change.change].variant}>{changeBadges[change.change].label}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,54 @@
+import { FileText } from 'lucide-react';
+import type { DicomInfo } from '@/lib/image-pipeline';
+
+// DICOM dates are YYYYMMDD
+const formatDicomDate = (date: string) =>
+  /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date;
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export const DicomMetadataPanel = ({ dicom }: { dicom: DicomInfo }) => {
+  const { metadata, window } = dicom;
+  const rows: [string, string | undefined][] = [
+    ['Patient', [metadata.patientName, metadata.patientId && `(${metadata.patientId})`].filter(Boolean).join(' ') || undefined],
+    ['Study date', metadata.studyDate && formatDicomDate(metadata.studyDate)],
+    ['Study', metadata.studyDescription],
+    ['Series', metadata.seriesDescription],
+    ['Modality', metadata.modality],
+    ['Scanner', [metadata.manufacturer, metadata.manufacturerModelName].filter(Boolean).join(' ') || undefined],
+    [
+      'Matrix',
+      `${metadata.columns} × ${metadata.rows}${metadata.numberOfFrames > 1 ? `, ${metadata.numberOfFrames} frames` : ''}`,
+    ],
+    [
+      'Pixel spacing',
+      metadata.pixelSpacing && `${metadata.pixelSpacing.map(formatNumber).join(' × ')} mm`,
+    ],
+    ['Slice thickness', metadata.sliceThickness != null ? `${formatNumber(metadata.sliceThickness)} mm` : undefined],
+    ['Bits stored', `${metadata.bitsStored} of ${metadata.bitsAllocated}, ${metadata.photometricInterpretation}`],
+    [
+      'Window',
+      `C ${formatNumber(window.center)} / W ${formatNumber(window.width)}${metadata.window ? '' : ' (full range)'}`,
+    ],
+    ['Transfer syntax', metadata.transferSyntax],
+  ];
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <FileText className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">DICOM Header</h3>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {rows
+          .filter(([, value]) => value)
+          .map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-medium break-words">{value}</dd>
+            </div>
+          ))}
+      </dl>
+    </div>
+  );
+};
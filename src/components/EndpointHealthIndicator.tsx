@@ -0,0 +1,44 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import type { EndpointMetadata, HealthCheckResult, HealthStatus } from '@/lib/inference';
+
+const statusStyles: Record<HealthStatus, { label: string; dot: string }> = {
+  online: { label: 'Model online', dot: 'bg-success' },
+  degraded: { label: 'Model degraded', dot: 'bg-warning' },
+  offline: { label: 'Model offline', dot: 'bg-destructive' },
+};
+
+interface EndpointHealthIndicatorProps {
+  health: HealthCheckResult | null;
+  metadata?: EndpointMetadata;
+}
+
+export const EndpointHealthIndicator = ({ health, metadata }: EndpointHealthIndicatorProps) => {
+  const style = health ? statusStyles[health.status] : { label: 'Checking model…', dot: 'bg-muted-foreground animate-pulse' };
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="gap-2 font-medium cursor-default" aria-live="polite">
+          <span className={cn('h-2 w-2 rounded-full', style.dot)} />
+          {style.label}
+          {health?.latencyMs != null && (
+            <span className="text-muted-foreground font-normal">{health.latencyMs} ms</span>
+          )}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {metadata && (
+          <p className="font-medium">
+            {metadata.title ?? metadata.location}
+            {metadata.version && <span className="text-muted-foreground font-normal"> · {metadata.version}</span>}
+          </p>
+        )}
+        {health
+          ? `Last checked ${new Date(health.checkedAt).toLocaleTimeString()}${health.error ? ` · ${health.error}` : ''}`
+          : 'Contacting the model endpoint'}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
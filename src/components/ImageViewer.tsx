@@ -0,0 +1,392 @@
+import { useEffect, useId, useMemo, useRef, useState, type PointerEvent, type ReactNode, type RefObject } from 'react';
+import {
+  Contrast,
+  FlipHorizontal2,
+  FlipVertical2,
+  Loader2,
+  Maximize,
+  Move,
+  RotateCcw,
+  RotateCw,
+  SlidersHorizontal,
+  SunMedium,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { IntensityHistogram } from '@/components/IntensityHistogram';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  clampZoom,
+  colormapGradient,
+  colormaps,
+  defaultDisplaySettings,
+  describePixel,
+  dragWindow,
+  fitZoom,
+  intensityHistogram,
+  MAX_GAMMA,
+  MIN_GAMMA,
+  renderDisplay,
+  viewTransform,
+  type Colormap,
+  type DisplaySettings,
+  type Rotation,
+} from '@/lib/viewer';
+
+type Tool = 'pan' | 'window';
+
+const ZOOM_STEP = 1.25;
+
+// Reads the image once into memory; the readout needs its pixels
+const useImagePixels = (image: Blob | string) => {
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPixels(null);
+    setError(false);
+
+    const load = async () => {
+      const blob = image instanceof Blob ? image : await (await fetch(image)).blob();
+      const bitmap = await createImageBitmap(blob);
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      const context = canvas.getContext('2d');
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return context.getImageData(0, 0, canvas.width, canvas.height);
+    };
+    load().then(
+      (data) => !cancelled && setPixels(data),
+      (loadError) => {
+        console.error('Viewer could not load the image:', loadError);
+        if (!cancelled) setError(true);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  return { pixels, error };
+};
+
+const useElementSize = (element: RefObject<HTMLElement>) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(element.current);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return size;
+};
+
+export interface ImageViewerProps {
+  /** The image, or an object or data URL of it. */
+  image: Blob | string;
+  alt: string;
+  /** Sizes the viewport; the image is fitted into it. */
+  className?: string;
+  /** Controls the display settings; left out, the viewer keeps its own. */
+  settings?: DisplaySettings;
+  onSettingsChange?: (settings: DisplaySettings) => void;
+  /** Shown under the viewer, e.g. what to do with the current display settings. */
+  actions?: ReactNode;
+}
+
+/**
+ * Canvas viewer for a scan: zoom (wheel or buttons), pan, fit or 1:1,
+ * rotation, flips, inversion and window/level dragging, with the value of
+ * the pixel under the cursor, and a panel with the histogram, colormap and
+ * gamma. Only the display changes, never the image.
+ */
+export const ImageViewer = ({
+  image,
+  alt,
+  className,
+  settings: controlled,
+  onSettingsChange,
+  actions,
+}: ImageViewerProps) => {
+  const container = useRef<HTMLDivElement>(null);
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const { pixels, error } = useImagePixels(image);
+  const viewSize = useElementSize(container);
+  const [uncontrolled, setUncontrolled] = useState(defaultDisplaySettings);
+  const settings = controlled ?? uncontrolled;
+  // `null` zoom follows the fit, so the image stays fitted as the view resizes
+  const [view, setView] = useState<{ zoom: number | null; panX: number; panY: number }>({
+    zoom: null,
+    panX: 0,
+    panY: 0,
+  });
+  const [tool, setTool] = useState<Tool>('pan');
+  const [showPanel, setShowPanel] = useState(false);
+  const invertId = useId();
+  const [readout, setReadout] = useState<{ x: number; y: number; value: string } | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  const { window: displayWindow, gamma, invert, colormap, rotation, flipHorizontal, flipVertical } = settings;
+  const fit = pixels ? fitZoom(pixels.width, pixels.height, rotation, viewSize.width, viewSize.height) : 1;
+  const zoom = view.zoom ?? fit;
+  const transform = useMemo(
+    () =>
+      pixels &&
+      viewTransform(pixels, viewSize, { zoom, panX: view.panX, panY: view.panY }, { rotation, flipHorizontal, flipVertical }),
+    [pixels, viewSize, zoom, view.panX, view.panY, rotation, flipHorizontal, flipVertical]
+  );
+
+  const updateSettings = (change: Partial<DisplaySettings>) => {
+    const next = { ...settings, ...change };
+    setUncontrolled(next);
+    onSettingsChange?.(next);
+  };
+
+  // Starts over for a new image
+  useEffect(() => {
+    setView({ zoom: null, panX: 0, panY: 0 });
+    setReadout(null);
+  }, [image]);
+
+  const display = useMemo(() => {
+    if (!pixels) return null;
+    const rendered = new OffscreenCanvas(pixels.width, pixels.height);
+    rendered.getContext('2d').putImageData(renderDisplay(pixels, { window: displayWindow, gamma, invert, colormap }), 0, 0);
+    return rendered;
+  }, [pixels, displayWindow, gamma, invert, colormap]);
+
+  const histogram = useMemo(() => pixels && intensityHistogram(pixels), [pixels]);
+
+  useEffect(() => {
+    const element = canvas.current;
+    if (!element || !display) return;
+    const ratio = window.devicePixelRatio || 1;
+    element.width = Math.round(viewSize.width * ratio);
+    element.height = Math.round(viewSize.height * ratio);
+    const context = element.getContext('2d');
+    context.resetTransform();
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, element.width, element.height);
+    context.setTransform(new DOMMatrix().scale(ratio).multiply(transform));
+    // Magnified pixels stay square, so they can be inspected one by one
+    context.imageSmoothingEnabled = zoom < 1;
+    context.drawImage(display, 0, 0);
+  }, [display, viewSize, transform, zoom]);
+
+  // Zooms about the cursor; wheel listeners must be non-passive to keep the page still
+  useEffect(() => {
+    const element = canvas.current;
+    if (!element) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      const offsetX = event.clientX - bounds.left - bounds.width / 2;
+      const offsetY = event.clientY - bounds.top - bounds.height / 2;
+      setView((current) => {
+        const from = current.zoom ?? fit;
+        const to = clampZoom(from * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+        return {
+          zoom: to,
+          panX: offsetX - (offsetX - current.panX) * (to / from),
+          panY: offsetY - (offsetY - current.panY) * (to / from),
+        };
+      });
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [fit, pixels]);
+
+  const zoomBy = (factor: number) =>
+    setView((current) => ({
+      zoom: clampZoom((current.zoom ?? fit) * factor),
+      panX: current.panX * factor,
+      panY: current.panY * factor,
+    }));
+
+  const readPixel = (e: PointerEvent) => {
+    const point = transform.inverse().transformPoint({ x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY });
+    const x = Math.floor(point.x);
+    const y = Math.floor(point.y);
+    const inside = x >= 0 && y >= 0 && x < pixels.width && y < pixels.height;
+    setReadout(inside ? { x, y, value: describePixel(pixels.data, (y * pixels.width + x) * 4) } : null);
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!pixels) return;
+    readPixel(e);
+    if (!drag.current) return;
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY };
+    if (tool === 'pan') {
+      setView((current) => ({ zoom: current.zoom ?? fit, panX: current.panX + dx, panY: current.panY + dy }));
+    } else {
+      updateSettings({ window: dragWindow(settings.window, dx, dy) });
+    }
+  };
+
+  const rotate = () => updateSettings({ rotation: ((rotation + 90) % 360) as Rotation });
+
+  const reset = () => {
+    updateSettings(defaultDisplaySettings);
+    setView({ zoom: null, panX: 0, panY: 0 });
+  };
+
+  const toolButton = (label: string, onClick: () => void, icon: ReactNode, active = false) => (
+    <Button
+      variant={active ? 'secondary' : 'ghost'}
+      size="icon"
+      className="h-8 w-8"
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+      onClick={onClick}
+      disabled={!pixels}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {toolButton('Pan', () => setTool('pan'), <Move className="h-4 w-4" />, tool === 'pan')}
+        {toolButton('Window/level (drag)', () => setTool('window'), <SunMedium className="h-4 w-4" />, tool === 'window')}
+        <span className="mx-1 h-5 w-px bg-border" />
+        {toolButton('Zoom in', () => zoomBy(ZOOM_STEP), <ZoomIn className="h-4 w-4" />)}
+        {toolButton('Zoom out', () => zoomBy(1 / ZOOM_STEP), <ZoomOut className="h-4 w-4" />)}
+        {toolButton('Fit', () => setView({ zoom: null, panX: 0, panY: 0 }), <Maximize className="h-4 w-4" />, view.zoom === null)}
+        <Button
+          variant={zoom === 1 ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-8 px-2 text-xs"
+          title="Actual size"
+          onClick={() => setView({ zoom: 1, panX: 0, panY: 0 })}
+          disabled={!pixels}
+        >
+          1:1
+        </Button>
+        <span className="mx-1 h-5 w-px bg-border" />
+        {toolButton('Rotate 90°', rotate, <RotateCw className="h-4 w-4" />)}
+        {toolButton(
+          'Flip horizontally',
+          () => updateSettings({ flipHorizontal: !settings.flipHorizontal }),
+          <FlipHorizontal2 className="h-4 w-4" />,
+          settings.flipHorizontal
+        )}
+        {toolButton(
+          'Flip vertically',
+          () => updateSettings({ flipVertical: !settings.flipVertical }),
+          <FlipVertical2 className="h-4 w-4" />,
+          settings.flipVertical
+        )}
+        {toolButton('Invert', () => updateSettings({ invert: !settings.invert }), <Contrast className="h-4 w-4" />, settings.invert)}
+        {toolButton('Reset view', reset, <RotateCcw className="h-4 w-4" />)}
+        <span className="mx-1 h-5 w-px bg-border" />
+        {toolButton('Display settings', () => setShowPanel(!showPanel), <SlidersHorizontal className="h-4 w-4" />, showPanel)}
+      </div>
+
+      <div ref={container} className={cn('relative h-80 overflow-hidden rounded-lg bg-black', className)}>
+        <canvas
+          ref={canvas}
+          role="img"
+          aria-label={alt}
+          className={cn('absolute inset-0 h-full w-full touch-none', tool === 'pan' ? 'cursor-grab' : 'cursor-ns-resize')}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (drag.current = null)}
+          onPointerCancel={() => (drag.current = null)}
+          onPointerLeave={() => setReadout(null)}
+        />
+        {!pixels && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            {error ? (
+              <p className="text-sm text-destructive">The image could not be displayed</p>
+            ) : (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground tabular-nums">
+        <span>{readout ? `x ${readout.x}, y ${readout.y} · value ${readout.value}` : pixels && `${pixels.width} × ${pixels.height}`}</span>
+        <span>
+          {Math.round(zoom * 100)}% · W {Math.round(settings.window.width)} / L {Math.round(settings.window.center)}
+        </span>
+      </div>
+
+      {showPanel && histogram && (
+        <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+          <IntensityHistogram
+            histogram={histogram}
+            window={displayWindow}
+            colormap={colormap}
+            invert={invert}
+            onWindowChange={(next) => updateSettings({ window: next })}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Colormap</Label>
+              <Select value={colormap} onValueChange={(value) => updateSettings({ colormap: value as Colormap })}>
+                <SelectTrigger aria-label="Colormap">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {colormaps.map((entry) => (
+                    <SelectItem key={entry.colormap} value={entry.colormap}>
+                      <span className="flex items-center gap-2">
+                        <span className="h-3 w-8 rounded-sm" style={{ background: colormapGradient(entry.colormap) }} />
+                        {entry.label}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Gamma</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">{gamma.toFixed(2)}</span>
+              </div>
+              {/* A log scale, so 1 sits in the middle */}
+              <Slider
+                min={Math.log(MIN_GAMMA)}
+                max={Math.log(MAX_GAMMA)}
+                step={0.01}
+                value={[Math.log(gamma)]}
+                onValueChange={([value]) => updateSettings({ gamma: Number(Math.exp(value).toFixed(2)) })}
+                aria-label="Gamma"
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={invertId}
+              checked={invert}
+              onCheckedChange={(checked) => updateSettings({ invert: checked })}
+            />
+            <Label htmlFor={invertId} className="text-sm text-muted-foreground">
+              Inverted
+            </Label>
+          </div>
+        </div>
+      )}
+      {actions}
+    </div>
+  );
+};
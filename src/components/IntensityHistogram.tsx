@@ -0,0 +1,100 @@
+import { useMemo, useRef, type PointerEvent } from 'react';
+import { colormapGradient, windowBetween, windowBounds, type Colormap, type DisplayWindow } from '@/lib/viewer';
+
+interface IntensityHistogramProps {
+  histogram: Uint32Array;
+  window: DisplayWindow;
+  colormap: Colormap;
+  invert: boolean;
+  onWindowChange: (window: DisplayWindow) => void;
+}
+
+const clampValue = (value: number) => Math.min(255, Math.max(0, value));
+
+/**
+ * Histogram of the image's luminance on a log scale, with the window's lower
+ * and upper bound as handles to drag, above a legend of the colormap.
+ */
+export const IntensityHistogram = ({ histogram, window, colormap, invert, onWindowChange }: IntensityHistogramProps) => {
+  const area = useRef<HTMLDivElement>(null);
+  const dragging = useRef<'lower' | 'upper' | null>(null);
+  const [lower, upper] = windowBounds(window);
+
+  // Log counts, so a black background does not flatten everything else
+  const outline = useMemo(() => {
+    const peak = Math.log1p(Math.max(...histogram));
+    const points = Array.from(histogram, (count, value) => `${value},${100 - (Math.log1p(count) / peak) * 100}`);
+    return `0,100 ${points.join(' ')} 255,100`;
+  }, [histogram]);
+
+  const valueAt = (e: PointerEvent) => {
+    const bounds = area.current.getBoundingClientRect();
+    return clampValue(((e.clientX - bounds.left) / bounds.width) * 255);
+  };
+
+  const startDrag = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const value = valueAt(e);
+    dragging.current = Math.abs(value - lower) <= Math.abs(value - upper) ? 'lower' : 'upper';
+    moveBound(e);
+  };
+
+  const moveBound = (e: PointerEvent) => {
+    if (!dragging.current) return;
+    const value = valueAt(e);
+    onWindowChange(
+      dragging.current === 'lower'
+        ? windowBetween(Math.min(value, upper - 1), upper)
+        : windowBetween(lower, Math.max(value, lower + 1))
+    );
+  };
+
+  const handle = (value: number, label: string) => (
+    <div
+      className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-primary"
+      style={{ left: `${(clampValue(value) / 255) * 100}%` }}
+    >
+      <span className="absolute -top-0.5 left-1/2 h-2 w-2 -translate-x-1/2 rounded-full bg-primary" />
+      <span className="sr-only">{label}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={area}
+        role="slider"
+        aria-label="Window bounds"
+        aria-valuemin={0}
+        aria-valuemax={255}
+        aria-valuenow={Math.round(window.center)}
+        aria-valuetext={`${Math.round(lower)} to ${Math.round(upper)}`}
+        className="relative h-20 cursor-ew-resize touch-none select-none rounded-md border bg-muted/40"
+        onPointerDown={startDrag}
+        onPointerMove={moveBound}
+        onPointerUp={() => (dragging.current = null)}
+        onPointerCancel={() => (dragging.current = null)}
+      >
+        <svg viewBox="0 0 255 100" preserveAspectRatio="none" className="absolute inset-0 h-full w-full">
+          <polygon points={outline} className="fill-muted-foreground/50" />
+        </svg>
+        {/* Values outside the window are clipped to black or white */}
+        <div className="absolute inset-y-0 left-0 bg-background/60" style={{ width: `${(clampValue(lower) / 255) * 100}%` }} />
+        <div
+          className="absolute inset-y-0 right-0 bg-background/60"
+          style={{ width: `${100 - (clampValue(upper) / 255) * 100}%` }}
+        />
+        {handle(lower, 'Lower bound')}
+        {handle(upper, 'Upper bound')}
+      </div>
+      <div
+        className="h-2 rounded-sm border"
+        style={{ background: colormapGradient(colormap), transform: invert ? 'scaleX(-1)' : undefined }}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{Math.round(lower)}</span>
+        <span>{Math.round(upper)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Layers, ScanLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MAX_SERIES_SLICES, type AnalysisInput, type SeriesSlice } from '@/lib/analysis';
+import {
+  extractSlice,
+  renderSlice,
+  sliceAxes,
+  sliceCount,
+  sliceToFile,
+  volumeWindow,
+  type SliceAxis,
+  type Volume,
+} from '@/lib/volume';
+
+const DEFAULT_RANGE_RADIUS = 5;
+
+const axisLabels: Record<SliceAxis, string> = {
+  axial: 'Axial',
+  coronal: 'Coronal',
+  sagittal: 'Sagittal',
+};
+
+interface NiftiVolumeViewerProps {
+  file: File;
+  volume: Volume;
+  /** Set while an analysis is running. */
+  disabled: boolean;
+  onAnalyze: (input: AnalysisInput) => void;
+  onClose: () => void;
+}
+
+export const NiftiVolumeViewer = ({ file, volume, disabled, onAnalyze, onClose }: NiftiVolumeViewerProps) => {
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const displayWindow = useMemo(() => volumeWindow(volume), [volume]);
+  const [axis, setAxis] = useState<SliceAxis>('axial');
+  const count = sliceCount(volume, axis);
+  const middle = Math.floor(count / 2);
+  const [positions, setPositions] = useState<Partial<Record<SliceAxis, number>>>({});
+  const [ranges, setRanges] = useState<Partial<Record<SliceAxis, [number, number]>>>({});
+  const [sliceError, setSliceError] = useState<string | null>(null);
+  const index = positions[axis] ?? middle;
+  const [rangeStart, rangeEnd] = ranges[axis] ?? [
+    Math.max(0, middle - DEFAULT_RANGE_RADIUS),
+    Math.min(count - 1, middle + DEFAULT_RANGE_RADIUS),
+  ];
+  const baseName = file.name.replace(/\.nii(\.gz)?$/i, '');
+
+  useEffect(() => {
+    const rendered = renderSlice(extractSlice(volume, axis, index), displayWindow);
+    const element = canvas.current;
+    element.width = rendered.width;
+    element.height = rendered.height;
+    element.getContext('2d').drawImage(rendered, 0, 0);
+  }, [volume, axis, index, displayWindow]);
+
+  const toSeriesSlice = (sliceIndex: number): SeriesSlice => ({
+    index: sliceIndex,
+    label: `${axisLabels[axis]} ${sliceIndex + 1}`,
+    load: () =>
+      sliceToFile(
+        extractSlice(volume, axis, sliceIndex),
+        displayWindow,
+        `${baseName}-${axis}-${String(sliceIndex + 1).padStart(3, '0')}.png`
+      ),
+  });
+
+  const analyzeSlice = async () => {
+    setSliceError(null);
+    try {
+      onAnalyze({ kind: 'image', file: await toSeriesSlice(index).load() });
+    } catch (error) {
+      console.error('Slice error:', error);
+      setSliceError(`Slice ${index + 1} could not be rendered: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const analyzeRange = () => {
+    const slices = Array.from({ length: rangeEnd - rangeStart + 1 }, (_, offset) => toSeriesSlice(rangeStart + offset));
+    onAnalyze({
+      kind: 'series',
+      name: `${file.name} · ${axisLabels[axis]} ${rangeStart + 1}–${rangeEnd + 1}`,
+      slices,
+    });
+  };
+
+  // Keep the range within the cap by dragging the other end along
+  const changeRange = ([start, end]: number[]) => {
+    const span = MAX_SERIES_SLICES - 1;
+    const clamped: [number, number] =
+      end - start <= span ? [start, end] : start !== rangeStart ? [start, start + span] : [end - span, end];
+    setRanges((current) => ({ ...current, [axis]: clamped }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Box className="h-4 w-4 text-primary flex-shrink-0" />
+          <p className="text-sm font-medium truncate">{file.name}</p>
+        </div>
+        <p className="text-xs text-muted-foreground flex-shrink-0">{volume.dims.join(' × ')} voxels</p>
+      </div>
+
+      <Tabs value={axis} onValueChange={(value) => setAxis(value as SliceAxis)}>
+        <TabsList className="grid w-full grid-cols-3">
+          {sliceAxes.map((sliceAxis) => (
+            <TabsTrigger key={sliceAxis} value={sliceAxis}>
+              {axisLabels[sliceAxis]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="rounded-lg overflow-hidden bg-black">
+        <canvas ref={canvas} className="w-full h-64 object-contain" aria-label={`${axisLabels[axis]} slice ${index + 1}`} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <Label>Slice</Label>
+          <span className="text-muted-foreground">
+            {index + 1} / {count}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={count - 1}
+          step={1}
+          value={[index]}
+          onValueChange={([value]) => setPositions((current) => ({ ...current, [axis]: value }))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <Label>Range</Label>
+          <span className="text-muted-foreground">
+            {rangeStart + 1}–{rangeEnd + 1} ({rangeEnd - rangeStart + 1} slices, max {MAX_SERIES_SLICES})
+          </span>
+        </div>
+        <Slider min={0} max={count - 1} step={1} value={[rangeStart, rangeEnd]} onValueChange={changeRange} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button onClick={analyzeSlice} disabled={disabled}>
+          <ScanLine className="h-4 w-4" />
+          Classify Slice
+        </Button>
+        <Button variant="secondary" onClick={analyzeRange} disabled={disabled}>
+          <Layers className="h-4 w-4" />
+          Classify Range
+        </Button>
+      </div>
+      {sliceError && <p className="text-xs text-destructive">{sliceError}</p>}
+      <Button variant="outline" onClick={onClose} className="w-full">
+        Upload Different Image
+      </Button>
+    </div>
+  );
+};
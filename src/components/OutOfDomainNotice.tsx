@@ -0,0 +1,46 @@
+import { AlertTriangle, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { DomainAssessment } from '@/lib/domain-check';
+
+interface OutOfDomainNoticeProps {
+  domain: DomainAssessment;
+  onShowPrediction: () => void;
+}
+
+/** Shown in place of the prediction when the input does not look like a brain MRI. */
+export const OutOfDomainNotice = ({ domain, onShowPrediction }: OutOfDomainNoticeProps) => {
+  const reasons = domain.heuristics.filter((heuristic) => !heuristic.inDomain);
+  const { embedding } = domain;
+
+  return (
+    <div className="p-4 rounded-lg bg-warning/10 border border-warning/40 space-y-3">
+      <div className="flex items-center gap-3">
+        <AlertTriangle className="h-5 w-5 text-warning flex-shrink-0" />
+        <div>
+          <p className="font-medium">Input outside model's intended domain</p>
+          <p className="text-sm text-muted-foreground">
+            This does not look like a brain MRI, so the model's scores for it carry no meaning.
+          </p>
+        </div>
+      </div>
+      <ul className="space-y-1 text-sm text-muted-foreground list-disc pl-5">
+        {embedding && embedding.distance > embedding.maxDistance && (
+          <li>
+            Its embedding lies {embedding.distance.toFixed(2)} from the training data; the limit is{' '}
+            {embedding.maxDistance.toFixed(2)}.
+          </li>
+        )}
+        {reasons.map((heuristic, index) => (
+          // A series or study can fail the same heuristic on several images
+          <li key={index}>
+            <span className="font-medium text-foreground">{heuristic.label}:</span> {heuristic.explanation}
+          </li>
+        ))}
+      </ul>
+      <Button variant="ghost" size="sm" onClick={onShowPrediction}>
+        <Eye className="h-4 w-4" />
+        Show the prediction anyway
+      </Button>
+    </div>
+  );
+};
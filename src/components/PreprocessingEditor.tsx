@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Crop, Loader2, RotateCcw, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useFilePreview } from '@/hooks/use-file-preview';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import { tensorShape, type PreprocessConfig } from '@/lib/inference';
+import {
+  cropBetween,
+  defaultPreprocessing,
+  drawPreprocessed,
+  findHeadRegion,
+  isDefaultPreprocessing,
+  preprocessedSize,
+  type CropBox,
+  type PreprocessingPipeline,
+} from '@/lib/preprocessing';
+import type { RedactionRegion } from '@/lib/redaction';
+
+type Point = { x: number; y: number };
+
+// Auto-crop works on a copy no larger than this, which is plenty to find a head
+const AUTO_CROP_SIZE = 256;
+// The model input preview when the model's own size is unknown
+const PREVIEW_SIZE = 160;
+
+const boxStyle = ({ x, y, width, height }: CropBox) => ({
+  left: `${x * 100}%`,
+  top: `${y * 100}%`,
+  width: `${width * 100}%`,
+  height: `${height * 100}%`,
+});
+
+interface PreprocessingEditorProps {
+  file: File;
+  deidentification: DeidentificationOptions | null;
+  redaction: RedactionRegion[];
+  /** How the model turns the image into a tensor, when the app runs the model itself. */
+  modelInput: PreprocessConfig | null;
+  onAnalyze: (pipeline: PreprocessingPipeline) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user crop an image down to the head, by dragging a box or with
+ * auto-crop, and pad it to a square, with a preview of exactly what the
+ * model will get.
+ */
+export const PreprocessingEditor = ({
+  file,
+  deidentification,
+  redaction,
+  modelInput,
+  onAnalyze,
+  onCancel,
+}: PreprocessingEditorProps) => {
+  const preview = useFilePreview(file, deidentification, redaction);
+  const [pipeline, setPipeline] = useState<PreprocessingPipeline>(defaultPreprocessing);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  const [loaded, setLoaded] = useState<HTMLImageElement | null>(null);
+  const [noHeadFound, setNoHeadFound] = useState(false);
+  const overlay = useRef<HTMLDivElement>(null);
+  const modelCanvas = useRef<HTMLCanvasElement>(null);
+
+  const image = preview.image;
+  const output = image && preprocessedSize(image.width, image.height, pipeline);
+  // Without a known input size, the preview keeps the output's proportions
+  const previewSize = modelInput
+    ? { width: modelInput.inputSize, height: modelInput.inputSize }
+    : output && {
+        width: Math.round((PREVIEW_SIZE * output.width) / Math.max(output.width, output.height)),
+        height: Math.round((PREVIEW_SIZE * output.height) / Math.max(output.width, output.height)),
+      };
+
+  useEffect(() => {
+    if (loaded && modelCanvas.current) drawPreprocessed(loaded, modelCanvas.current, pipeline);
+  }, [loaded, pipeline, previewSize?.width, previewSize?.height]);
+
+  const pointAt = (e: PointerEvent): Point => {
+    const bounds = overlay.current.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  };
+
+  const startCrop = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDraft({ start: point, end: point });
+  };
+
+  const extendCrop = (e: PointerEvent) => {
+    if (draft) setDraft({ ...draft, end: pointAt(e) });
+  };
+
+  const finishCrop = () => {
+    const crop = draft && cropBetween(draft.start, draft.end);
+    if (crop) setPipeline((current) => ({ ...current, crop, autoCropped: false }));
+    setDraft(null);
+  };
+
+  const autoCrop = () => {
+    const scale = Math.min(1, AUTO_CROP_SIZE / Math.max(loaded.naturalWidth, loaded.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(loaded.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(loaded.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    context.drawImage(loaded, 0, 0, canvas.width, canvas.height);
+    const crop = findHeadRegion(context.getImageData(0, 0, canvas.width, canvas.height));
+    setNoHeadFound(!crop);
+    if (crop) setPipeline((current) => ({ ...current, crop, autoCropped: true }));
+  };
+
+  const draftCrop = draft && cropBetween(draft.start, draft.end);
+  const shownCrop = draftCrop ?? pipeline.crop;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 min-w-0">
+        <Crop className="h-4 w-4 text-primary flex-shrink-0" />
+        <p className="text-sm font-medium truncate">{file.name}</p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Drag a box around the head to crop away viewer chrome, or let auto-crop find it. The crop and padding are kept
+        with the result.
+      </p>
+
+      <div className="flex min-h-64 items-center justify-center overflow-hidden rounded-lg bg-black">
+        {image ? (
+          <div className="relative inline-block select-none">
+            <img
+              src={image.previewUrl}
+              alt="Image to crop"
+              className="block max-h-80 max-w-full"
+              draggable={false}
+              onLoad={(e) => setLoaded(e.currentTarget)}
+            />
+            <div
+              ref={overlay}
+              className="absolute inset-0 cursor-crosshair touch-none overflow-hidden"
+              onPointerDown={startCrop}
+              onPointerMove={extendCrop}
+              onPointerUp={finishCrop}
+              onPointerCancel={() => setDraft(null)}
+            >
+              {shownCrop && (
+                // The shadow dims everything outside the crop
+                <div
+                  className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+                  style={boxStyle(shownCrop)}
+                />
+              )}
+            </div>
+          </div>
+        ) : preview.error ? (
+          <p className="px-4 text-center text-sm text-destructive">{file.name} could not be read</p>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={autoCrop} disabled={!loaded}>
+          <Wand2 className="h-4 w-4" />
+          Auto-crop to head
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setPipeline((current) => ({ ...current, crop: null, autoCropped: false }));
+            setNoHeadFound(false);
+          }}
+          disabled={!pipeline.crop}
+        >
+          <RotateCcw className="h-4 w-4" />
+          Reset crop
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch
+            id="preprocessing-pad"
+            checked={pipeline.padToSquare}
+            onCheckedChange={(padToSquare) => setPipeline((current) => ({ ...current, padToSquare }))}
+          />
+          <Label htmlFor="preprocessing-pad" className="text-sm text-muted-foreground">
+            Pad to square
+          </Label>
+        </div>
+      </div>
+      {noHeadFound && <p className="text-xs text-destructive">No head stands out from the background.</p>}
+
+      {output && previewSize && (
+        <div className="flex items-center gap-4 rounded-lg border bg-muted/30 p-3">
+          <canvas
+            ref={modelCanvas}
+            width={previewSize.width}
+            height={previewSize.height}
+            className="h-20 w-auto flex-shrink-0 rounded border bg-black [image-rendering:pixelated]"
+          />
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p className="text-sm font-medium text-foreground">What the model gets</p>
+            <p>
+              Sent as {output.width} × {output.height} px
+              {pipeline.crop && ` (from ${image.width} × ${image.height})`}
+            </p>
+            {modelInput ? (
+              <>
+                <p>
+                  Tensor {tensorShape(modelInput).join(' × ')} ({modelInput.layout}, {modelInput.channelOrder}), resized
+                  {output.width !== output.height && ', and squashed,'} to {modelInput.inputSize} ×{' '}
+                  {modelInput.inputSize}
+                </p>
+                <p>
+                  Normalised by ÷{modelInput.scale}, mean {modelInput.mean.join(', ')}, std {modelInput.std.join(', ')}
+                </p>
+              </>
+            ) : (
+              <p>The model host resizes and normalises it to its own input.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={() => onAnalyze(pipeline)} disabled={!image}>
+          {isDefaultPreprocessing(pipeline) ? 'Analyze' : 'Apply and Analyze'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { AlertTriangle, CheckCircle2, Gauge, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { QualityCheck, QualityStatus } from '@/lib/image-quality';
+
+const statusIcons: Record<QualityStatus, JSX.Element> = {
+  pass: <CheckCircle2 className="h-4 w-4 text-success" />,
+  warn: <AlertTriangle className="h-4 w-4 text-warning" />,
+  fail: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+/** The quality checks run on an image before it is submitted, or the failed ones of a whole series. */
+export const QualityReportPanel = ({ checks }: { checks: QualityCheck[] }) => {
+  const failed = checks.filter((check) => check.status === 'fail').length;
+  const warned = checks.filter((check) => check.status === 'warn').length;
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Gauge className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">Image Quality</h3>
+        <span className="ml-auto flex gap-1">
+          {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+          {warned > 0 && <Badge variant="secondary">{warned} to review</Badge>}
+        </span>
+      </div>
+      <ul className="space-y-2 text-sm">
+        {checks.map((check, index) => (
+          <li key={`${index}-${check.id}`} className="flex gap-2">
+            <span className="mt-0.5 flex-shrink-0">{statusIcons[check.status]}</span>
+            <div>
+              <p className="font-medium">{check.label}</p>
+              <p className="text-xs text-muted-foreground">{check.explanation}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Eraser, Loader2, Save, Scan, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useFilePreview } from '@/hooks/use-file-preview';
+import { useRedactionTemplates } from '@/hooks/use-redaction-templates';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import type { ProcessedImage } from '@/lib/image-pipeline';
+import { regionBetween, scannerOf, templatesFor, type RedactionRegion } from '@/lib/redaction';
+
+type Point = { x: number; y: number };
+
+const regionStyle = ({ x, y, width, height }: RedactionRegion) => ({
+  left: `${x * 100}%`,
+  top: `${y * 100}%`,
+  width: `${width * 100}%`,
+  height: `${height * 100}%`,
+});
+
+interface RedactionEditorProps {
+  /** The image the regions are drawn on; the first of a series or study. */
+  file: File;
+  /** How many images the regions are blacked out on. */
+  imageCount?: number;
+  deidentification: DeidentificationOptions | null;
+  onContinue: (regions: RedactionRegion[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user black out burned-in text before an image is analyzed, by
+ * dragging rectangles over the preview or applying a saved template. A
+ * template saved for the image's scanner is applied on its own. For a
+ * series or study, the regions drawn on its first image cover every image.
+ */
+export const RedactionEditor = ({
+  file,
+  imageCount = 1,
+  deidentification,
+  onContinue,
+  onCancel,
+}: RedactionEditorProps) => {
+  const preview = useFilePreview(file, deidentification);
+  const { templates, saveTemplate, deleteTemplate } = useRedactionTemplates();
+  const [regions, setRegions] = useState<RedactionRegion[]>([]);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [scannerOnly, setScannerOnly] = useState(true);
+  const [appliedTemplate, setAppliedTemplate] = useState<string | null>(null);
+  const overlay = useRef<HTMLDivElement>(null);
+  const scanner = scannerOf(preview.image?.dicom?.metadata);
+  const available = templatesFor(templates, scanner);
+
+  // Once per file, as its scanner is only known after decoding
+  const autoApplied = useRef<ProcessedImage | null>(null);
+  useEffect(() => {
+    if (!preview.image || autoApplied.current === preview.image) return;
+    autoApplied.current = preview.image;
+    const template = templates.find((candidate) => scanner && candidate.scanner === scanner);
+    if (template) {
+      setRegions(template.regions);
+      setAppliedTemplate(template.name);
+    }
+  }, [preview.image, scanner, templates]);
+
+  const pointAt = (e: PointerEvent): Point => {
+    const bounds = overlay.current.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  };
+
+  const startRegion = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDraft({ start: point, end: point });
+  };
+
+  const extendRegion = (e: PointerEvent) => {
+    if (draft) setDraft({ ...draft, end: pointAt(e) });
+  };
+
+  const finishRegion = () => {
+    const region = draft && regionBetween(draft.start, draft.end);
+    if (region) setRegions((current) => [...current, region]);
+    setDraft(null);
+  };
+
+  const removeRegion = (index: number) => setRegions((current) => current.filter((_, i) => i !== index));
+
+  const saveRegions = () => {
+    saveTemplate(templateName.trim(), scanner && scannerOnly ? scanner : null, regions);
+    setAppliedTemplate(templateName.trim());
+    setTemplateName('');
+  };
+
+  const draftRegion = draft && regionBetween(draft.start, draft.end);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Scan className="h-4 w-4 text-primary flex-shrink-0" />
+          <p className="text-sm font-medium truncate">{file.name}</p>
+        </div>
+        {scanner && <p className="text-xs text-muted-foreground truncate">{scanner}</p>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Drag over burned-in names, dates or IDs to black them out. Only the redacted image is sent to the model and
+        kept with the result.
+        {imageCount > 1 && ` The regions are blacked out on all ${imageCount} images, so cover where the text sits on any of them.`}
+      </p>
+
+      <div className="flex min-h-64 items-center justify-center rounded-lg bg-black">
+        {preview.image ? (
+          <div className="relative inline-block select-none">
+            <img src={preview.image.previewUrl} alt="Image to redact" className="block max-h-80 max-w-full" draggable={false} />
+            <div
+              ref={overlay}
+              className="absolute inset-0 cursor-crosshair touch-none"
+              onPointerDown={startRegion}
+              onPointerMove={extendRegion}
+              onPointerUp={finishRegion}
+              onPointerCancel={() => setDraft(null)}
+            >
+              {regions.map((region, index) => (
+                <div key={index} className="group absolute bg-black ring-1 ring-primary/60" style={regionStyle(region)}>
+                  <button
+                    type="button"
+                    className="absolute right-0 top-0 hidden rounded-bl bg-primary p-0.5 text-primary-foreground group-hover:block"
+                    aria-label={`Remove region ${index + 1}`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => removeRegion(index)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {draftRegion && (
+                <div className="absolute border-2 border-dashed border-primary bg-black/60" style={regionStyle(draftRegion)} />
+              )}
+            </div>
+          </div>
+        ) : preview.error ? (
+          <p className="px-4 text-center text-sm text-destructive">{file.name} could not be read</p>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {regions.length === 0 ? 'No regions' : `${regions.length} region${regions.length === 1 ? '' : 's'}`}
+          {appliedTemplate && ` · template “${appliedTemplate}”`}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setRegions([]);
+            setAppliedTemplate(null);
+          }}
+          disabled={regions.length === 0}
+        >
+          <Eraser className="h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      {available.length > 0 && (
+        <div className="space-y-2">
+          <Label>Templates</Label>
+          <ul className="space-y-1">
+            {available.map((template) => (
+              <li key={template.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+                <span className="flex-1 truncate">
+                  {template.name}
+                  <span className="text-muted-foreground"> · {template.scanner ?? 'any scanner'}</span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setRegions((current) => [...current, ...template.regions]);
+                    setAppliedTemplate(template.name);
+                  }}
+                >
+                  Apply
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={`Delete template ${template.name}`}
+                  onClick={() => deleteTemplate(template.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {regions.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="redaction-template-name">Save regions as a template</Label>
+          <div className="flex gap-2">
+            <Input
+              id="redaction-template-name"
+              value={templateName}
+              placeholder="e.g. Corner labels"
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+            <Button variant="outline" onClick={saveRegions} disabled={!templateName.trim()}>
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          {scanner && (
+            <div className="flex items-center gap-2">
+              <Switch id="redaction-scanner-only" checked={scannerOnly} onCheckedChange={setScannerOnly} />
+              <Label htmlFor="redaction-scanner-only" className="text-sm text-muted-foreground">
+                Only for {scanner}, and apply it automatically
+              </Label>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={() => onContinue(regions)} disabled={!preview.image}>
+          {regions.length > 0 ? 'Redact and Continue' : 'Continue'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { SeriesSummary } from '@/lib/series';
+
+const seriesColors = ['hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--destructive))', 'hsl(var(--success))'];
+
+// Recharts keys may not contain spaces or dots
+const toKey = (className: string) => className.replace(/[^a-z0-9]+/gi, '_');
+
+/** Confidence of every class across the slices of a series, with the driving slices marked. */
+export const SlicePredictionChart = ({ series: { slices, drivingSlices } }: { series: SeriesSummary }) => {
+  const classes = slices[0]?.predictions.map((prediction) => prediction.class).sort() ?? [];
+  const config: ChartConfig = Object.fromEntries(
+    classes.map((className, index) => [
+      toKey(className),
+      { label: className, color: seriesColors[index % seriesColors.length] },
+    ])
+  );
+  const data = slices.map((slice) => ({
+    slice: slice.index + 1,
+    label: slice.label,
+    ...Object.fromEntries(slice.predictions.map((prediction) => [toKey(prediction.class), prediction.confidence])),
+  }));
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full">
+      <LineChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="slice" tickLine={false} axisLine={false} />
+        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, [item]) => item?.payload.label}
+              formatter={(value, name) => (
+                <div className="flex w-full items-center justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as string]?.label ?? name}</span>
+                  <span className="font-mono font-medium">{Number(value).toFixed(1)}%</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {drivingSlices.map((index) => (
+          <ReferenceLine key={index} x={index + 1} stroke="hsl(var(--primary))" strokeOpacity={0.3} strokeWidth={4} />
+        ))}
+        {classes.map((className) => (
+          <Line
+            key={className}
+            dataKey={toKey(className)}
+            type="monotone"
+            stroke={`var(--color-${toKey(className)})`}
+            strokeWidth={2}
+            dot={slices.length <= 16}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { SeriesSummary } from '@/lib/series';
+
+/** Thumbnails of every slice of a series with its top prediction; the driving slices are outlined. */
+export const SliceStrip = ({ series: { slices, drivingSlices } }: { series: SeriesSummary }) => {
+  const driving = new Set(drivingSlices);
+
+  return (
+    <ScrollArea className="w-full whitespace-nowrap">
+      <ol className="flex gap-2 pb-3">
+        {slices.map((slice) => {
+          const [top] = slice.predictions;
+          const isDriving = driving.has(slice.index);
+          return (
+            <li
+              key={slice.index}
+              className={cn(
+                'w-24 flex-shrink-0 space-y-1 rounded-md border p-1',
+                isDriving ? 'border-primary ring-2 ring-primary/40' : 'border-border opacity-80'
+              )}
+              title={`${slice.label}: ${top.class} (${top.confidence.toFixed(1)}%)${isDriving ? ' · drove the result' : ''}`}
+            >
+              <img src={slice.thumbnail} alt={slice.label} className="h-20 w-full rounded-sm bg-black object-contain" />
+              <p className="truncate text-[10px] text-muted-foreground">{slice.label}</p>
+              <Badge
+                variant={isDriving ? 'default' : 'secondary'}
+                className="w-full justify-center truncate px-1 text-[10px]"
+              >
+                {top.class} {top.confidence.toFixed(0)}%
+              </Badge>
+            </li>
+          );
+        })}
+      </ol>
+      <ScrollBar orientation="horizontal" />
+    </ScrollArea>
+  );
+};
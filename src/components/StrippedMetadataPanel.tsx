@@ -0,0 +1,41 @@
+import { Eraser } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { ImageMetadataEntry } from '@/lib/image-metadata';
+
+const formatSize = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+/** The metadata left behind when a JPEG, PNG or WebP upload was re-encoded. */
+export const StrippedMetadataPanel = ({ entries }: { entries: ImageMetadataEntry[] }) => (
+  <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+    <div className="flex items-center gap-2">
+      <Eraser className="h-4 w-4 text-primary" />
+      <h3 className="text-sm font-semibold">Metadata Removed</h3>
+    </div>
+    {entries.length === 0 ? (
+      <p className="text-sm text-muted-foreground">
+        The file held no metadata. It was re-encoded from its pixels all the same.
+      </p>
+    ) : (
+      <ul className="space-y-2 text-sm">
+        {entries.map((entry, index) => (
+          <li key={index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">{entry.kind}</Badge>
+              <span className="font-mono text-xs text-muted-foreground">{entry.container}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{formatSize(entry.size)}</span>
+            </div>
+            {entry.fields.length > 0 && (
+              <ul className="pl-2 text-xs text-muted-foreground">
+                {entry.fields.map((field) => (
+                  <li key={field} className="break-words">
+                    {field}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,200 @@
+import { useState, type DragEvent } from 'react';
+import { FileImage, Layers, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RedactionEditor } from '@/components/RedactionEditor';
+import { cn } from '@/lib/utils';
+import type { AnalysisInput } from '@/lib/analysis';
+import { useFilePreview } from '@/hooks/use-file-preview';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import type { MriSequence } from '@/lib/inference';
+import type { RedactionRegion } from '@/lib/redaction';
+import { mriSequences, sequenceLabel, studySequences, type StudyFiles } from '@/lib/study';
+
+interface SequenceSlotProps {
+  sequence: MriSequence;
+  description: string;
+  file: File | undefined;
+  required: boolean;
+  accept: string;
+  deidentification: DeidentificationOptions | null;
+  /** The regions the study was last analyzed with; `null` until it has been redacted. */
+  redaction: RedactionRegion[] | null;
+  disabled: boolean;
+  onChange: (file: File | undefined) => void;
+}
+
+const SequenceSlot = ({
+  sequence,
+  description,
+  file,
+  required,
+  accept,
+  deidentification,
+  redaction,
+  disabled,
+  onChange,
+}: SequenceSlotProps) => {
+  const [dragActive, setDragActive] = useState(false);
+  // Pixels are only shown once they have gone through the same redaction as the analysis
+  const preview = useFilePreview(redaction ? file : undefined, deidentification, redaction ?? undefined);
+  const inputId = `study-${sequence}`;
+
+  const handleDrag = (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(e.type === 'dragenter' || e.type === 'dragover');
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    handleDrag(e);
+    if (!disabled && e.dataTransfer.files?.[0]) {
+      onChange(e.dataTransfer.files[0]);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm font-medium">
+          {sequenceLabel(sequence)}
+          {required && <span className="text-destructive"> *</span>}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{description}</p>
+      </div>
+      <div
+        className={cn(
+          'upload-zone relative flex h-32 items-center justify-center overflow-hidden rounded-lg border-2 border-dashed bg-muted/40 transition-all',
+          disabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer',
+          dragActive ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+        )}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+        onClick={() => !disabled && document.getElementById(inputId)?.click()}
+      >
+        {!file ? (
+          <div className="text-center text-xs text-muted-foreground">
+            <FileImage className="mx-auto mb-1 h-8 w-8" />
+            Drop or click
+          </div>
+        ) : !redaction ? (
+          <div className="px-2 text-center text-xs text-muted-foreground">
+            <FileImage className="mx-auto mb-1 h-8 w-8" />
+            <p className="truncate">{file.name}</p>
+            <p>Shown once redacted</p>
+          </div>
+        ) : preview.image ? (
+          <img src={preview.image.previewUrl} alt={`${sequenceLabel(sequence)} preview`} className="h-full w-full bg-black object-contain" />
+        ) : preview.error ? (
+          <p className="px-2 text-center text-xs text-destructive">{file.name} could not be read</p>
+        ) : (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        )}
+        {file && !disabled && (
+          <Button
+            variant="secondary"
+            size="icon"
+            className="absolute right-1 top-1 h-6 w-6"
+            aria-label={`Remove ${sequenceLabel(sequence)}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange(undefined);
+            }}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+        <input
+          id={inputId}
+          type="file"
+          className="hidden"
+          accept={accept}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => {
+            if (e.target.files?.[0]) onChange(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface StudyInputFormProps {
+  /** Sequences the model takes in one request, or `null` if each is rated on its own. */
+  inputs: MriSequence[] | null;
+  accept: string;
+  deidentification: DeidentificationOptions | null;
+  /** Set while an analysis is running. */
+  disabled: boolean;
+  onAnalyze: (input: AnalysisInput) => void;
+}
+
+/**
+ * One drop zone per MRI sequence of a study. The study is redacted before it
+ * is analyzed, with the regions drawn on its first sequence; until then the
+ * drop zones show file names rather than pixels.
+ */
+export const StudyInputForm = ({ inputs, accept, deidentification, disabled, onAnalyze }: StudyInputFormProps) => {
+  const [files, setFiles] = useState<StudyFiles>({});
+  const [redacting, setRedacting] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionRegion[] | null>(null);
+  // A multi-input model has no use for sequences it does not take
+  const slots = inputs ? mriSequences.filter(({ sequence }) => inputs.includes(sequence)) : mriSequences;
+  const provided = studySequences(files);
+  const ready = inputs ? inputs.every((sequence) => files[sequence]) : provided.length > 0;
+
+  const analyzeStudy = (redaction: RedactionRegion[]) => {
+    const name = provided.map(sequenceLabel).join(' + ');
+    onAnalyze({ kind: 'study', name, sequences: files, redaction });
+    setRedaction(redaction);
+    setRedacting(false);
+  };
+
+  if (redacting) {
+    return (
+      <RedactionEditor
+        file={files[provided[0]]}
+        imageCount={provided.length}
+        deidentification={deidentification}
+        onContinue={analyzeStudy}
+        onCancel={() => setRedacting(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {slots.map(({ sequence, description }) => (
+          <SequenceSlot
+            key={sequence}
+            sequence={sequence}
+            description={description}
+            file={files[sequence]}
+            required={inputs?.includes(sequence) ?? false}
+            accept={accept}
+            deidentification={deidentification}
+            redaction={redaction}
+            disabled={disabled}
+            onChange={(file) => {
+              setFiles((current) => ({ ...current, [sequence]: file }));
+              // The study has to be redacted again before any of it is shown
+              setRedaction(null);
+            }}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {inputs
+          ? `The model rates ${inputs.map(sequenceLabel).join(', ')} together in one request.`
+          : 'Each sequence is classified on its own; the study result is their mean.'}
+      </p>
+      <Button className="w-full" onClick={() => setRedacting(true)} disabled={disabled || !ready}>
+        <Layers className="h-4 w-4" />
+        Analyze Study
+      </Button>
+    </div>
+  );
+};
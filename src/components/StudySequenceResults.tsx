@@ -0,0 +1,28 @@
+import { Badge } from '@/components/ui/badge';
+import { sequenceLabel, type StudySummary } from '@/lib/study';
+
+/** The image and top prediction of every sequence of a study. */
+export const StudySequenceResults = ({ study }: { study: StudySummary }) => (
+  <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+    {study.sequences.map(({ sequence, predictions, thumbnail }) => (
+      <div key={sequence} className="space-y-1 rounded-md border p-2">
+        <p className="text-sm font-medium">{sequenceLabel(sequence)}</p>
+        <img src={thumbnail} alt={sequenceLabel(sequence)} className="h-20 w-full rounded-sm bg-black object-contain" />
+        {predictions ? (
+          <div className="space-y-0.5 text-xs">
+            {predictions.map((prediction, index) => (
+              <div key={prediction.class} className="flex justify-between gap-2">
+                <span className={index === 0 ? 'font-medium' : 'text-muted-foreground'}>{prediction.class}</span>
+                <span className="font-mono">{prediction.confidence.toFixed(1)}%</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Badge variant="outline" className="w-full justify-center text-[10px]">
+            Rated with the other sequences
+          </Badge>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { runAnalysis, type ClassificationResult } from '@/lib/analysis';
+
+export const analysisKeys = {
+  all: ['analysis'] as const,
+  latest: ['analysis', 'latest'] as const,
+};
+
+/** Runs an analysis and publishes its result as the latest one, unless it is a demo result. */
+export function useAnalysis() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: analysisKeys.all,
+    mutationFn: runAnalysis,
+    onSuccess: (result) => {
+      // Fabricated results must never be read elsewhere as a real analysis
+      if (result.isDemo) return;
+      queryClient.setQueryData(analysisKeys.latest, result);
+    },
+  });
+}
+
+/** The most recent successful analysis, readable from any page. */
+export function useLatestAnalysis() {
+  return useQuery<ClassificationResult | null>({
+    queryKey: analysisKeys.latest,
+    queryFn: () => null,
+    initialData: null,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+}
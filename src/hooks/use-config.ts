@@ -0,0 +1,12 @@
+import * as React from 'react';
+import type { AppConfig } from '@/lib/config';
+
+export const ConfigContext = React.createContext<AppConfig | null>(null);
+
+export function useConfig() {
+  const config = React.useContext(ConfigContext);
+  if (!config) {
+    throw new Error('useConfig must be used within a ConfigProvider');
+  }
+  return config;
+}
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from 'react';
+import { defaultDisplaySettings, loadDisplaySettings, storeDisplaySettings, type DisplaySettings } from '@/lib/viewer';
+
+/** Display settings saved with a case, keyed by e.g. its image hash; `null` keeps them unsaved. */
+export function useDisplaySettings(caseKey: string | null) {
+  const [settings, setSettings] = useState<DisplaySettings>(defaultDisplaySettings);
+
+  useEffect(() => {
+    setSettings((caseKey && loadDisplaySettings(caseKey)) ?? defaultDisplaySettings);
+  }, [caseKey]);
+
+  const changeSettings = useCallback(
+    (next: DisplaySettings) => {
+      setSettings(next);
+      if (caseKey) storeDisplaySettings(caseKey, next);
+    },
+    [caseKey]
+  );
+
+  return [settings, changeSettings] as const;
+}
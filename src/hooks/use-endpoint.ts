@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import type { InferenceProvider } from '@/lib/inference';
+
+export const endpointKeys = {
+  all: (providerId: string) => ['endpoint', providerId] as const,
+  health: (providerId: string) => [...endpointKeys.all(providerId), 'health'] as const,
+  metadata: (providerId: string) => [...endpointKeys.all(providerId), 'metadata'] as const,
+};
+
+/** Polls `provider.checkHealth` every `intervalMs`. */
+export function useEndpointHealth(provider: InferenceProvider, intervalMs: number) {
+  return useQuery({
+    queryKey: endpointKeys.health(provider.id),
+    queryFn: ({ signal }) => provider.checkHealth(signal),
+    refetchInterval: intervalMs,
+    // checkHealth reports failures as `offline` rather than throwing
+    retry: false,
+  });
+}
+
+export function useEndpointMetadata(provider: InferenceProvider) {
+  return useQuery({
+    queryKey: endpointKeys.metadata(provider.id),
+    queryFn: ({ signal }) => provider.getMetadata(signal),
+    staleTime: Infinity,
+  });
+}
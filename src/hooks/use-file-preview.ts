@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import { isAbortError } from '@/lib/inference';
+import { processImage, releaseProcessedImage, type ProcessedImage } from '@/lib/image-pipeline';
+import type { RedactionRegion } from '@/lib/redaction';
+
+const noRegions: RedactionRegion[] = [];
+
+/**
+ * Decodes `file` like an upload would, so DICOM files get a preview too, with
+ * `redaction` already applied. The preview is released when the file changes
+ * or the component unmounts.
+ */
+export function useFilePreview(
+  file: File | undefined,
+  deidentification: DeidentificationOptions | null = null,
+  redaction: RedactionRegion[] = noRegions
+) {
+  const [preview, setPreview] = useState<{ image: ProcessedImage | null; error: boolean }>({
+    image: null,
+    error: false,
+  });
+
+  useEffect(() => {
+    setPreview({ image: null, error: false });
+    if (!file) return;
+
+    const controller = new AbortController();
+    let processed: ProcessedImage | null = null;
+    processImage(file, { signal: controller.signal, deidentification, redaction }).then(
+      (image) => {
+        processed = image;
+        setPreview({ image, error: false });
+      },
+      (error) => {
+        if (!isAbortError(error)) setPreview({ image: null, error: true });
+      }
+    );
+    return () => {
+      controller.abort();
+      if (processed) releaseProcessedImage(processed);
+    };
+  }, [file, deidentification, redaction]);
+
+  return preview;
+}
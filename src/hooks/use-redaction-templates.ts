@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import {
+  loadRedactionTemplates,
+  storeRedactionTemplates,
+  type RedactionRegion,
+  type RedactionTemplate,
+} from '@/lib/redaction';
+
+/** The redaction templates saved in this browser. */
+export function useRedactionTemplates() {
+  const [templates, setTemplates] = useState(loadRedactionTemplates);
+
+  const update = useCallback((change: (current: RedactionTemplate[]) => RedactionTemplate[]) => {
+    setTemplates((current) => {
+      const next = change(current);
+      storeRedactionTemplates(next);
+      return next;
+    });
+  }, []);
+
+  /** Saves `regions` under `name`, replacing a template of the same name and scanner. */
+  const saveTemplate = useCallback(
+    (name: string, scanner: string | null, regions: RedactionRegion[]) => {
+      const template: RedactionTemplate = { id: crypto.randomUUID(), name, scanner, regions, createdAt: Date.now() };
+      update((current) => [
+        ...current.filter((existing) => existing.name !== name || existing.scanner !== scanner),
+        template,
+      ]);
+      return template;
+    },
+    [update]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => update((current) => current.filter((template) => template.id !== id)),
+    [update]
+  );
+
+  return { templates, saveTemplate, deleteTemplate };
+}
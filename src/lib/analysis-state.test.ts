@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisInput, ClassificationResult } from '@/lib/analysis';
+import type { ProcessedImage } from '@/lib/image-pipeline';
+import { analysisReducer, initialAnalysisState, isAnalysisActive, type AnalysisState } from '@/lib/analysis-state';
+
+const input: AnalysisInput = { kind: 'image', file: new File([], 'scan.png', { type: 'image/png' }) };
+const image = { previewUrl: 'blob:scan', hash: 'abc' } as ProcessedImage;
+
+const sliceResult = (index: number, glioma: number) => ({
+  index,
+  label: `Slice ${index + 1}`,
+  predictions: [
+    { class: 'Glioma', confidence: glioma },
+    { class: 'No Tumor', confidence: 100 - glioma },
+  ],
+  thumbnail: '',
+});
+
+const result: ClassificationResult = {
+  predictions: [{ class: 'Glioma', confidence: 90 }],
+  primaryPrediction: 'Glioma',
+  uploadedImage: 'blob:scan',
+  isDemo: false,
+};
+
+const run = (...events: Parameters<typeof analysisReducer>[1][]) =>
+  events.reduce<AnalysisState>(analysisReducer, initialAnalysisState);
+
+const uploading = () =>
+  run(
+    { type: 'submit', requestId: 'a', input },
+    { type: 'validated', requestId: 'a' },
+    { type: 'imageReady', requestId: 'a', image }
+  );
+
+describe('analysisReducer', () => {
+  it('walks a request from submission to its result', () => {
+    let state = run({ type: 'submit', requestId: 'a', input });
+    expect(state).toEqual({ status: 'validating', requestId: 'a', input });
+
+    state = analysisReducer(state, { type: 'validated', requestId: 'a' });
+    expect(state).toMatchObject({ status: 'previewing', preparationStage: null });
+
+    state = analysisReducer(state, { type: 'preparing', requestId: 'a', stage: 'decoding' });
+    expect(state).toMatchObject({ status: 'previewing', preparationStage: 'decoding' });
+
+    state = analysisReducer(state, { type: 'imageReady', requestId: 'a', image });
+    expect(state).toMatchObject({ status: 'uploading', image, progress: null });
+
+    state = analysisReducer(state, { type: 'progress', requestId: 'a', progress: { stage: 'queued', queuePosition: 2 } });
+    expect(state).toMatchObject({ status: 'queued', progress: { queuePosition: 2 } });
+
+    state = analysisReducer(state, { type: 'progress', requestId: 'a', progress: { stage: 'processing' } });
+    expect(state.status).toBe('inferring');
+
+    state = analysisReducer(state, { type: 'succeeded', requestId: 'a', result });
+    expect(state).toEqual({ status: 'succeeded', requestId: 'a', input, image, result });
+    expect(isAnalysisActive(state)).toBe(false);
+  });
+
+  it('maps provider stages onto statuses', () => {
+    const stageStatus = (stage: 'connecting' | 'uploading' | 'queued' | 'processing' | 'parsing') =>
+      analysisReducer(uploading(), { type: 'progress', requestId: 'a', progress: { stage } }).status;
+
+    expect(stageStatus('connecting')).toBe('uploading');
+    expect(stageStatus('uploading')).toBe('uploading');
+    expect(stageStatus('queued')).toBe('queued');
+    expect(stageStatus('processing')).toBe('inferring');
+    expect(stageStatus('parsing')).toBe('inferring');
+  });
+
+  it('drops events of a request that has been superseded', () => {
+    const state = analysisReducer(uploading(), { type: 'submit', requestId: 'b', input });
+
+    for (const event of [
+      { type: 'validated', requestId: 'a' },
+      { type: 'imageReady', requestId: 'a', image },
+      { type: 'progress', requestId: 'a', progress: { stage: 'processing' } },
+      { type: 'succeeded', requestId: 'a', result },
+      { type: 'failed', requestId: 'a', error: new Error('late') },
+    ] as const) {
+      expect(analysisReducer(state, event)).toBe(state);
+    }
+  });
+
+  it('ignores a late result once the request was cancelled', () => {
+    const cancelled = analysisReducer(uploading(), { type: 'cancel' });
+    expect(cancelled).toEqual({ status: 'cancelled', requestId: 'a', input, image });
+
+    expect(analysisReducer(cancelled, { type: 'succeeded', requestId: 'a', result })).toBe(cancelled);
+    expect(analysisReducer(cancelled, { type: 'failed', requestId: 'a', error: new Error('late') })).toBe(cancelled);
+  });
+
+  it('only cancels a request in flight', () => {
+    const done = analysisReducer(uploading(), { type: 'succeeded', requestId: 'a', result });
+    expect(analysisReducer(done, { type: 'cancel' })).toBe(done);
+    expect(analysisReducer(initialAnalysisState, { type: 'cancel' })).toBe(initialAnalysisState);
+  });
+
+  it('keeps the prepared image when a request fails', () => {
+    const error = new Error('offline');
+    expect(analysisReducer(uploading(), { type: 'failed', requestId: 'a', error })).toEqual({
+      status: 'failed',
+      requestId: 'a',
+      input,
+      image,
+      error,
+    });
+  });
+
+  it('ignores events that make no sense in the current state', () => {
+    const validating = run({ type: 'submit', requestId: 'a', input });
+    expect(analysisReducer(validating, { type: 'succeeded', requestId: 'a', result })).toBe(validating);
+    expect(analysisReducer(validating, { type: 'preparing', requestId: 'a', stage: 'decoding' })).toBe(validating);
+    expect(analysisReducer(initialAnalysisState, { type: 'validated', requestId: 'a' })).toBe(initialAnalysisState);
+  });
+
+  it('re-aggregates a finished series without another request', () => {
+    const slices = [sliceResult(0, 80), sliceResult(1, 30), sliceResult(2, 70)];
+    const series: ClassificationResult = {
+      ...result,
+      series: { slices, aggregation: 'mean', drivingSlices: [0, 2] },
+    };
+    const done = analysisReducer(uploading(), { type: 'succeeded', requestId: 'a', result: series });
+
+    const state = analysisReducer(done, { type: 'aggregate', aggregation: 'majority' });
+    expect(state).toMatchObject({ status: 'succeeded', requestId: 'a' });
+    expect(state.status === 'succeeded' && state.result.series).toEqual({
+      slices,
+      aggregation: 'majority',
+      drivingSlices: [0, 2],
+    });
+  });
+
+  it('resets from any state', () => {
+    expect(analysisReducer(uploading(), { type: 'reset' })).toBe(initialAnalysisState);
+  });
+});
@@ -0,0 +1,120 @@
+import type { AnalysisProgress } from '@/lib/inference';
+import type { ImagePipelineStage, ProcessedImage } from '@/lib/image-pipeline';
+import { withAggregation, type AnalysisInput, type ClassificationResult, type SeriesProgress } from '@/lib/analysis';
+import type { AggregationStrategy } from '@/lib/series';
+
+interface Attempt {
+  requestId: string;
+  input: AnalysisInput;
+}
+
+interface InFlight {
+  progress: AnalysisProgress | null;
+  /** Slices done so far, when the input is a series. */
+  series: SeriesProgress | null;
+}
+
+export type AnalysisState =
+  | { status: 'idle' }
+  | ({ status: 'validating' } & Attempt)
+  | ({ status: 'previewing'; preparationStage: ImagePipelineStage | null; series: SeriesProgress | null } & Attempt)
+  | ({ status: 'uploading' | 'queued' | 'inferring'; image: ProcessedImage } & InFlight & Attempt)
+  | ({ status: 'succeeded'; image: ProcessedImage; result: ClassificationResult } & Attempt)
+  | ({ status: 'failed'; image: ProcessedImage | null; error: unknown } & Attempt)
+  | ({ status: 'cancelled'; image: ProcessedImage | null } & Attempt);
+
+export type AnalysisStatus = AnalysisState['status'];
+
+export type AnalysisEvent =
+  | { type: 'submit'; requestId: string; input: AnalysisInput }
+  | { type: 'validated'; requestId: string }
+  | { type: 'preparing'; requestId: string; stage: ImagePipelineStage }
+  | { type: 'imageReady'; requestId: string; image: ProcessedImage }
+  | { type: 'progress'; requestId: string; progress: AnalysisProgress }
+  | { type: 'seriesProgress'; requestId: string; series: SeriesProgress }
+  | { type: 'succeeded'; requestId: string; result: ClassificationResult }
+  | { type: 'failed'; requestId: string; error: unknown }
+  | { type: 'aggregate'; aggregation: AggregationStrategy }
+  | { type: 'cancel' }
+  | { type: 'reset' };
+
+export const initialAnalysisState: AnalysisState = { status: 'idle' };
+
+const activeStatuses = ['validating', 'previewing', 'uploading', 'queued', 'inferring'] as const;
+
+export type ActiveAnalysisState = Extract<AnalysisState, { status: (typeof activeStatuses)[number] }>;
+
+/** Whether a request is in flight, i.e. it can still be cancelled. */
+export const isAnalysisActive = (state: AnalysisState): state is ActiveAnalysisState =>
+  (activeStatuses as readonly AnalysisStatus[]).includes(state.status);
+
+/** The image being (or last) analyzed, once it has been prepared. */
+export const imageOf = (state: AnalysisState) => ('image' in state ? state.image : null);
+
+const statusForProgress = ({ stage }: AnalysisProgress): 'uploading' | 'queued' | 'inferring' => {
+  switch (stage) {
+    case 'connecting':
+    case 'uploading':
+      return 'uploading';
+    case 'queued':
+      return 'queued';
+    case 'processing':
+    case 'parsing':
+      return 'inferring';
+  }
+};
+
+/**
+ * Transitions of a single analysis. Events from anything but the latest
+ * request are dropped, so a late response can never overwrite a newer one;
+ * events that make no sense in the current state are ignored too.
+ */
+export const analysisReducer = (state: AnalysisState, event: AnalysisEvent): AnalysisState => {
+  switch (event.type) {
+    case 'submit':
+      // Allowed from any state: a new upload supersedes whatever was running
+      return { status: 'validating', requestId: event.requestId, input: event.input };
+    case 'reset':
+      return initialAnalysisState;
+    case 'cancel':
+      return isAnalysisActive(state)
+        ? { status: 'cancelled', requestId: state.requestId, input: state.input, image: imageOf(state) }
+        : state;
+    case 'aggregate':
+      // Re-combines the slices of a finished series; no model call needed
+      return state.status === 'succeeded' && state.result.series
+        ? { ...state, result: withAggregation(state.result, state.result.series.slices, event.aggregation) }
+        : state;
+  }
+
+  if (state.status === 'idle' || state.requestId !== event.requestId) {
+    return state;
+  }
+  const attempt: Attempt = { requestId: state.requestId, input: state.input };
+  const uploading = state.status === 'uploading' || state.status === 'queued' || state.status === 'inferring';
+
+  switch (event.type) {
+    case 'validated':
+      return state.status === 'validating'
+        ? { status: 'previewing', ...attempt, preparationStage: null, series: null }
+        : state;
+    case 'preparing':
+      return state.status === 'previewing' ? { ...state, preparationStage: event.stage } : state;
+    case 'imageReady':
+      // Each slice of a series brings its own image
+      return state.status === 'previewing' || uploading
+        ? { status: 'uploading', ...attempt, image: event.image, progress: null, series: state.series }
+        : state;
+    case 'progress':
+      return uploading ? { ...state, status: statusForProgress(event.progress), progress: event.progress } : state;
+    case 'seriesProgress':
+      return state.status === 'previewing' || uploading ? { ...state, series: event.series } : state;
+    case 'succeeded':
+      // A cached result arrives before the provider has reported any progress
+      return uploading ? { status: 'succeeded', ...attempt, image: state.image, result: event.result } : state;
+    case 'failed':
+      return isAnalysisActive(state)
+        ? { status: 'failed', ...attempt, image: imageOf(state), error: event.error }
+        : state;
+  }
+};
@@ -0,0 +1,500 @@
+import {
+  isAbortError,
+  throwIfAborted,
+  type AnalysisProgress,
+  type InferenceProvider,
+  type MriSequence,
+  type PredictionResult,
+} from '@/lib/inference';
+import { assessDomain, combineDomainAssessments, type DomainAssessment } from '@/lib/domain-check';
+import { processImage, type ImagePipelineStage, type ProcessedImage } from '@/lib/image-pipeline';
+import { failedChecks, ImageQualityError } from '@/lib/image-quality';
+import { isAcceptedMimeType, type UploadConfig } from '@/lib/config';
+// Not the index, which would pull the DICOM decoders into the main bundle
+import { DICOM_MIME_TYPE, isDicomFile } from '@/lib/dicom/file-type';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import type { PreprocessingPipeline, PreprocessingRecord } from '@/lib/preprocessing';
+import type { RedactionRegion } from '@/lib/redaction';
+import type { DisplaySettings } from '@/lib/viewer';
+import { resultCacheKey, type ResultCache } from '@/lib/result-cache';
+import { isNiftiFile, NIFTI_MIME_TYPE } from '@/lib/volume';
+import {
+  aggregateSlices,
+  createThumbnail,
+  orderSeriesFiles,
+  type AggregationStrategy,
+  type SeriesSummary,
+} from '@/lib/series';
+import { sequenceLabel, studySequences, type StudyFiles, type StudySummary } from '@/lib/study';
+
+/** Every slice of a series is a separate model call, so series are capped. */
+export const MAX_SERIES_SLICES = 64;
+
+/** One image of a series, rendered only when its turn comes. */
+export interface SeriesSlice {
+  index: number;
+  label: string;
+  load: () => Promise<File>;
+}
+
+export type AnalysisInput =
+  /**
+   * `redaction` regions are blacked out before the image goes anywhere, then
+   * `preprocessing` crops and pads it; `display` settings are baked in when
+   * the user asked for that.
+   */
+  | {
+      kind: 'image';
+      file: File;
+      redaction?: RedactionRegion[];
+      preprocessing?: PreprocessingPipeline;
+      display?: DisplaySettings;
+    }
+  | { kind: 'series'; name: string; slices: SeriesSlice[] }
+  /**
+   * Separate files, e.g. a DICOM folder, that still have to be put in order;
+   * `redaction` is blacked out on every one of them.
+   */
+  | { kind: 'files'; name: string; files: File[]; redaction?: RedactionRegion[] }
+  /** One image per MRI sequence of the same study, each with `redaction` blacked out. */
+  | { kind: 'study'; name: string; sequences: StudyFiles; redaction?: RedactionRegion[] };
+
+export interface SliceResult {
+  index: number;
+  label: string;
+  predictions: PredictionResult[];
+  /** JPEG data URL of the slice as it was sent. */
+  thumbnail: string;
+}
+
+export interface SeriesProgress {
+  completed: number;
+  total: number;
+  /** The slice or sequence being analyzed. */
+  label?: string;
+}
+
+export interface ClassificationResult {
+  predictions: PredictionResult[];
+  primaryPrediction: string;
+  uploadedImage: string;
+  /** Fabricated by Demo Mode or the mock provider; must never be exported or saved as a real analysis. */
+  isDemo: boolean;
+  /** When the reused result was produced, if it came from the result cache. */
+  cachedAt?: number;
+  /** Per-slice results of a series; `predictions` is then their aggregate. */
+  series?: SeriesSummary;
+  /** Per-sequence results of a multi-sequence study. */
+  study?: StudySummary;
+  /** Whether the image, or every image of a series or study, looks like what the model was trained on. */
+  domain?: DomainAssessment;
+  /** How a single image was cropped and padded before it was sent. */
+  preprocessing?: PreprocessingRecord;
+}
+
+export class UploadValidationError extends Error {
+  constructor(readonly title: string, message: string) {
+    super(message);
+    this.name = 'UploadValidationError';
+  }
+}
+
+// Browsers rarely know these MIME types, so the extension decides
+const effectiveType = (file: File) => {
+  if (isDicomFile(file)) return DICOM_MIME_TYPE;
+  if (isNiftiFile(file)) return NIFTI_MIME_TYPE;
+  return file.type;
+};
+
+/** Returns why `file` cannot be analyzed, or `null` if it can. */
+export const validateUpload = (file: File, { maxFileSizeMb, maxVolumeSizeMb, acceptedMimeTypes }: UploadConfig) => {
+  const type = effectiveType(file);
+  if (!isAcceptedMimeType(type, acceptedMimeTypes)) {
+    return new UploadValidationError('Invalid File Type', 'Please upload an image file (JPEG, PNG, DICOM, NIfTI, etc.)');
+  }
+
+  // Only single slices of a volume are sent to the model, so volumes get their own limit
+  const limitMb = type === NIFTI_MIME_TYPE ? maxVolumeSizeMb : maxFileSizeMb;
+  if (file.size > limitMb * 1024 * 1024) {
+    return new UploadValidationError('File Too Large', `Please upload a file smaller than ${limitMb}MB`);
+  }
+  return null;
+};
+
+// Volumes are only analyzed through their slices, never as part of a bigger input
+const validateParts = (parts: [name: string, file: File][], upload: UploadConfig) => {
+  for (const [name, file] of parts) {
+    if (isNiftiFile(file)) {
+      return new UploadValidationError('Invalid File Type', `${name}: upload volumes on their own`);
+    }
+    const invalid = validateUpload(file, upload);
+    if (invalid) {
+      return new UploadValidationError(invalid.title, `${name}: ${invalid.message}`);
+    }
+  }
+  return null;
+};
+
+/** Returns why `input` cannot be analyzed, or `null` if it can. */
+export const validateInput = (input: AnalysisInput, upload: UploadConfig) => {
+  if (input.kind === 'image') {
+    return validateUpload(input.file, upload);
+  }
+  if (input.kind === 'study') {
+    const sequences = studySequences(input.sequences);
+    if (sequences.length === 0) {
+      return new UploadValidationError('No Sequences', 'Add an image for at least one sequence');
+    }
+    return validateParts(
+      sequences.map((sequence) => [sequenceLabel(sequence), input.sequences[sequence]]),
+      upload
+    );
+  }
+
+  const count = input.kind === 'series' ? input.slices.length : input.files.length;
+  if (count === 0) {
+    return new UploadValidationError('No Slices Selected', 'Select at least one slice to analyze');
+  }
+  if (count > MAX_SERIES_SLICES) {
+    return new UploadValidationError(
+      'Too Many Slices',
+      `A series can have at most ${MAX_SERIES_SLICES} slices; this one has ${count}`
+    );
+  }
+
+  return input.kind === 'files' ? validateParts(input.files.map((file) => [file.name, file]), upload) : null;
+};
+
+/** The file input's `accept` attribute; DICOM files are picked by extension. */
+export const uploadAcceptAttribute = ({ acceptedMimeTypes }: UploadConfig) =>
+  [
+    ...acceptedMimeTypes,
+    ...(isAcceptedMimeType(DICOM_MIME_TYPE, acceptedMimeTypes) ? ['.dcm'] : []),
+    ...(isAcceptedMimeType(NIFTI_MIME_TYPE, acceptedMimeTypes) ? ['.nii', '.nii.gz'] : []),
+  ].join(',');
+
+export interface AnalysisRequest {
+  requestId: string;
+  input: AnalysisInput;
+  provider: InferenceProvider;
+  /** `null` disables caching, e.g. for fabricated demo results. */
+  cache: ResultCache | null;
+  skipCache?: boolean;
+  signal: AbortSignal;
+  onPreparationProgress?: (stage: ImagePipelineStage) => void;
+  /** Receives each processed image and takes ownership of its preview URL. */
+  onImageReady?: (image: ProcessedImage) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onSeriesProgress?: (progress: SeriesProgress) => void;
+  /** How the slices of a series are combined; defaults to `mean`. */
+  aggregation?: AggregationStrategy;
+  /** Applied to DICOM headers as they are read. */
+  deidentification?: DeidentificationOptions;
+  /** Sends images that failed a quality check anyway; the user has to ask for it. */
+  overrideQuality?: boolean;
+}
+
+const prepareImage = async (
+  file: File,
+  request: AnalysisRequest,
+  {
+    redaction = [],
+    preprocessing = null,
+    display = null,
+  }: { redaction?: RedactionRegion[]; preprocessing?: PreprocessingPipeline | null; display?: DisplaySettings | null } = {}
+) => {
+  const image = await processImage(file, {
+    signal: request.signal,
+    onProgress: request.onPreparationProgress,
+    deidentification: request.deidentification,
+    redaction,
+    preprocessing,
+    display,
+  });
+  request.onImageReady?.(image);
+  return image;
+};
+
+// Before the cache or the model, so a failed image is never submitted by
+// accident. The checks of several images are reported together, each
+// labelled with the image it failed on.
+const assertQuality = (images: { label?: string; image: ProcessedImage }[], request: AnalysisRequest) => {
+  if (request.overrideQuality) return;
+  const failed = images.flatMap(({ label, image }) =>
+    failedChecks(image.quality).map((check) => (label ? { ...check, label: `${label}: ${check.label}` } : check))
+  );
+  if (failed.length > 0) {
+    throw new ImageQualityError(failed);
+  }
+};
+
+/**
+ * Prepares and quality-checks every image of a series or study before the
+ * first goes to the model, so a failing slice never leaves it half submitted.
+ */
+const prepareImages = async (
+  parts: { label: string; load: () => Promise<File> }[],
+  request: AnalysisRequest,
+  redaction: RedactionRegion[] = []
+) => {
+  const prepared: { image: ProcessedImage; thumbnail: string }[] = [];
+  for (const [index, part] of parts.entries()) {
+    request.onSeriesProgress?.({ completed: index, total: parts.length, label: part.label });
+    const file = await part.load();
+    throwIfAborted(request.signal);
+    const image = await prepareImage(file, request, { redaction });
+    // The preview is released once the next image is ready, so keep a copy
+    prepared.push({ image, thumbnail: await createThumbnail(image.previewUrl) });
+  }
+  assertQuality(
+    parts.map((part, index) => ({ label: part.label, image: prepared[index].image })),
+    request
+  );
+  return prepared;
+};
+
+/** Answers from the result cache if it can, and otherwise asks the model and caches the answer. */
+const predictCached = async (
+  imageHash: string,
+  request: AnalysisRequest,
+  predict: () => Promise<PredictionResult[]>
+): Promise<Pick<ClassificationResult, 'predictions' | 'primaryPrediction' | 'isDemo' | 'cachedAt'>> => {
+  const { provider, cache, signal } = request;
+  const cacheKey = resultCacheKey(provider.id, imageHash);
+  const cached = cache && !request.skipCache ? await cache.get(cacheKey) : null;
+  throwIfAborted(signal);
+
+  if (cached) {
+    return {
+      predictions: cached.predictions,
+      primaryPrediction: cached.predictions[0].class,
+      isDemo: false,
+      cachedAt: cached.createdAt,
+    };
+  }
+
+  const predictions = await predict();
+  await cache?.set(cacheKey, predictions);
+  return { predictions, primaryPrediction: predictions[0].class, isDemo: provider.kind === 'mock' };
+};
+
+// The embedding check is optional, so a host that fails it still gets the heuristics' verdict
+const screenDomain = async (image: ProcessedImage, request: AnalysisRequest) => {
+  let embedding = null;
+  try {
+    embedding = await request.provider.checkDomain({
+      requestId: request.requestId,
+      image: image.payload,
+      signal: request.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn('Domain check failed:', error);
+  }
+  return assessDomain(image.domain, embedding);
+};
+
+// Every image of a series or study is screened, one at a time like its predictions
+const screenDomains = async (images: { label: string; image: ProcessedImage }[], request: AnalysisRequest) => {
+  const assessments: { label: string; domain: DomainAssessment }[] = [];
+  for (const { label, image } of images) {
+    assessments.push({ label, domain: await screenDomain(image, request) });
+  }
+  return combineDomainAssessments(assessments);
+};
+
+const predictImage = (image: ProcessedImage, request: AnalysisRequest) =>
+  predictCached(image.hash, request, () =>
+    request.provider.predict({
+      requestId: request.requestId,
+      image: image.payload,
+      signal: request.signal,
+      onProgress: request.onProgress,
+    })
+  );
+
+const analyzeImage = async (
+  file: File,
+  request: AnalysisRequest,
+  edits: { redaction?: RedactionRegion[]; preprocessing?: PreprocessingPipeline; display?: DisplaySettings } = {}
+): Promise<ClassificationResult> => {
+  const image = await prepareImage(file, request, edits);
+  assertQuality([{ image }], request);
+  const result = await predictImage(image, request);
+  const domain = await screenDomain(image, request);
+  return { ...result, uploadedImage: image.previewUrl, domain, preprocessing: image.preprocessing ?? undefined };
+};
+
+// Slices go to the model one at a time, so a long series never floods the endpoint
+const analyzeSeries = async (
+  slices: SeriesSlice[],
+  request: AnalysisRequest,
+  redaction?: RedactionRegion[]
+): Promise<ClassificationResult> => {
+  const prepared = await prepareImages(slices, request, redaction);
+  const results: SliceResult[] = [];
+  let last: Pick<ClassificationResult, 'predictions' | 'isDemo'>;
+
+  for (const [index, slice] of slices.entries()) {
+    request.onSeriesProgress?.({ completed: index, total: slices.length, label: slice.label });
+    const { image, thumbnail } = prepared[index];
+    last = await predictImage(image, request);
+    results.push({ index: slice.index, label: slice.label, predictions: last.predictions, thumbnail });
+  }
+  request.onSeriesProgress?.({ completed: results.length, total: slices.length });
+  const domain = await screenDomains(
+    slices.map((slice, index) => ({ label: slice.label, image: prepared[index].image })),
+    request
+  );
+
+  return withAggregation(
+    {
+      predictions: [],
+      primaryPrediction: '',
+      uploadedImage: prepared[prepared.length - 1].image.previewUrl,
+      isDemo: last.isDemo,
+      domain,
+    },
+    results,
+    request.aggregation ?? 'mean'
+  );
+};
+
+/** Replaces the predictions of a series result with another aggregate of its slices. */
+export const withAggregation = (
+  result: ClassificationResult,
+  slices: SliceResult[],
+  aggregation: AggregationStrategy
+): ClassificationResult => {
+  const { predictions, drivingSlices } = aggregateSlices(slices, aggregation);
+  return {
+    ...result,
+    predictions,
+    primaryPrediction: predictions[0].class,
+    series: { slices, aggregation, drivingSlices },
+  };
+};
+
+const analyzeFiles = async (files: File[], request: AnalysisRequest, redaction?: RedactionRegion[]) => {
+  const slices = await orderSeriesFiles(files);
+  throwIfAborted(request.signal);
+  return analyzeSeries(slices, request, redaction);
+};
+
+// Single-image models rate each sequence on its own, and the study gets their mean
+const analyzeSequencesSeparately = async (
+  files: StudyFiles,
+  request: AnalysisRequest,
+  redaction?: RedactionRegion[]
+): Promise<ClassificationResult> => {
+  const sequences = studySequences(files);
+  const prepared = await prepareImages(
+    sequences.map((sequence) => ({ label: sequenceLabel(sequence), load: async () => files[sequence] })),
+    request,
+    redaction
+  );
+  const results: SliceResult[] = [];
+  let last: Pick<ClassificationResult, 'predictions' | 'isDemo'>;
+
+  for (const [index, sequence] of sequences.entries()) {
+    request.onSeriesProgress?.({ completed: index, total: sequences.length, label: sequenceLabel(sequence) });
+    const { image, thumbnail } = prepared[index];
+    last = await predictImage(image, request);
+    results.push({ index, label: sequenceLabel(sequence), predictions: last.predictions, thumbnail });
+  }
+  request.onSeriesProgress?.({ completed: sequences.length, total: sequences.length });
+  const domain = await screenDomains(
+    sequences.map((sequence, index) => ({ label: sequenceLabel(sequence), image: prepared[index].image })),
+    request
+  );
+
+  const { predictions } = aggregateSlices(results, 'mean');
+  return {
+    predictions,
+    primaryPrediction: predictions[0].class,
+    uploadedImage: prepared[prepared.length - 1].image.previewUrl,
+    isDemo: last.isDemo,
+    domain,
+    study: {
+      sequences: results.map(({ predictions, thumbnail }, index) => ({
+        sequence: sequences[index],
+        predictions,
+        thumbnail,
+      })),
+      combination: 'mean',
+    },
+  };
+};
+
+// Multi-input models get every declared sequence in one request
+const analyzeSequencesTogether = async (
+  files: StudyFiles,
+  inputs: MriSequence[],
+  request: AnalysisRequest,
+  redaction?: RedactionRegion[]
+): Promise<ClassificationResult> => {
+  const missing = inputs.filter((sequence) => !files[sequence]);
+  if (missing.length > 0) {
+    throw new UploadValidationError(
+      'Missing Sequences',
+      `The model needs ${inputs.map(sequenceLabel).join(', ')}; add ${missing.map(sequenceLabel).join(', ')}`
+    );
+  }
+
+  const prepared = await prepareImages(
+    inputs.map((sequence) => ({ label: sequenceLabel(sequence), load: async () => files[sequence] })),
+    request,
+    redaction
+  );
+
+  const studyHash = inputs.map((sequence, index) => `${sequence}:${prepared[index].image.hash}`).join('+');
+  const result = await predictCached(studyHash, request, () =>
+    request.provider.predictStudy({
+      requestId: request.requestId,
+      images: Object.fromEntries(inputs.map((sequence, index) => [sequence, prepared[index].image.payload])),
+      signal: request.signal,
+      onProgress: request.onProgress,
+    })
+  );
+  const domain = await screenDomains(
+    inputs.map((sequence, index) => ({ label: sequenceLabel(sequence), image: prepared[index].image })),
+    request
+  );
+
+  return {
+    ...result,
+    uploadedImage: prepared[prepared.length - 1].image.previewUrl,
+    domain,
+    study: {
+      sequences: inputs.map((sequence, index) => ({ sequence, predictions: null, thumbnail: prepared[index].thumbnail })),
+      combination: 'model',
+    },
+  };
+};
+
+const analyzeStudy = (files: StudyFiles, request: AnalysisRequest, redaction?: RedactionRegion[]) =>
+  request.provider.inputs
+    ? analyzeSequencesTogether(files, request.provider.inputs, request, redaction)
+    : analyzeSequencesSeparately(files, request, redaction);
+
+/**
+ * Prepares the input, then answers from the result cache or the model. Rejects
+ * with an `AbortError` as soon as `signal` aborts.
+ */
+export const runAnalysis = (request: AnalysisRequest): Promise<ClassificationResult> => {
+  const { input } = request;
+  switch (input.kind) {
+    case 'image':
+      return analyzeImage(input.file, request, {
+        redaction: input.redaction,
+        preprocessing: input.preprocessing,
+        display: input.display,
+      });
+    case 'series':
+      return analyzeSeries(input.slices, request);
+    case 'files':
+      return analyzeFiles(input.files, request, input.redaction);
+    case 'study':
+      return analyzeStudy(input.sequences, request, input.redaction);
+  }
+};
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import type { InferenceConfig } from '@/lib/inference';
+// Not the DICOM index, which would pull the decoders into the main bundle
+import { parseTag } from '@/lib/dicom/confidentiality-profile';
+
+const classLabelSchema = z.object({
+  key: z.string().min(1),
+  name: z.string().min(1),
+});
+
+const channelTripletSchema = z.tuple([z.number(), z.number(), z.number()]);
+
+// ImageNet statistics at 224px, the usual defaults for exported CNN classifiers
+const onnxSchema = z.object({
+  modelUrl: z.string().min(1),
+  inputName: z.string().min(1).optional(),
+  outputName: z.string().min(1).optional(),
+  wasmPaths: z.string().min(1).optional(),
+  preprocess: z
+    .object({
+      inputSize: z.number().int().positive(),
+      layout: z.enum(['NCHW', 'NHWC']),
+      channelOrder: z.enum(['RGB', 'BGR']),
+      scale: z.number().positive(),
+      mean: channelTripletSchema,
+      std: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]),
+    })
+    .default({
+      inputSize: 224,
+      layout: 'NCHW',
+      channelOrder: 'RGB',
+      scale: 255,
+      mean: [0.485, 0.456, 0.406],
+      std: [0.229, 0.224, 0.225],
+    }),
+});
+
+export const appConfigSchema = z.object({
+  inference: z
+    .object({
+      provider: z.enum(['gradio', 'rest', 'onnx', 'mock']),
+      url: z.string(),
+      endpoint: z.string().min(1),
+      labels: z.array(classLabelSchema).min(2),
+      outputType: z.enum(['probabilities', 'logits']),
+      timeouts: z.object({
+        connectMs: z.number().int().positive(),
+        uploadMs: z.number().int().positive(),
+        predictMs: z.number().int().positive(),
+      }),
+      retry: z.object({
+        maxAttempts: z.number().int().min(1),
+        baseDelayMs: z.number().int().nonnegative(),
+        maxDelayMs: z.number().int().nonnegative(),
+      }),
+      circuitBreaker: z.object({
+        failureThreshold: z.number().int().min(1),
+        cooldownMs: z.number().int().positive(),
+      }),
+      health: z.object({
+        endpoint: z.string().min(1).optional(),
+        intervalMs: z.number().int().min(1_000),
+        degradedLatencyMs: z.number().int().positive(),
+      }),
+      connectionTtlMs: z.number().int().positive(),
+      onnx: onnxSchema.optional(),
+      inputs: z.array(z.enum(['t1', 't1c', 't2', 'flair'])).min(1).optional(),
+      domainCheck: z
+        .object({
+          endpoint: z.string().min(1),
+          maxDistance: z.number().positive(),
+        })
+        .optional(),
+    })
+    .refine(
+      (inference) =>
+        !['gradio', 'rest'].includes(inference.provider) || z.string().url().safeParse(inference.url).success,
+      {
+        message: 'A valid URL is required for the gradio and rest providers: set it in config.json or VITE_INFERENCE_URL',
+        path: ['url'],
+      }
+    )
+    .refine((inference) => inference.provider !== 'onnx' || inference.onnx, {
+      message: 'The onnx provider needs an onnx.modelUrl',
+      path: ['onnx'],
+    })
+    .refine((inference) => !inference.inputs || new Set(inference.inputs).size === inference.inputs.length, {
+      message: 'Each sequence may only be listed once',
+      path: ['inputs'],
+    })
+    .refine((inference) => !inference.inputs || ['gradio', 'rest'].includes(inference.provider), {
+      message: 'Only the gradio and rest providers can take several sequences in one request',
+      path: ['inputs'],
+    })
+    .refine((inference) => !inference.domainCheck || ['gradio', 'rest'].includes(inference.provider), {
+      message: 'Only the gradio and rest providers can serve a domain check',
+      path: ['domainCheck'],
+    }),
+  upload: z.object({
+    maxFileSizeMb: z.number().positive(),
+    maxVolumeSizeMb: z.number().positive(),
+    acceptedMimeTypes: z.array(z.string().min(1)).min(1),
+  }),
+  cache: z.object({
+    enabled: z.boolean(),
+    ttlMs: z.number().int().positive(),
+    modelVersion: z.string().optional(),
+  }),
+  deidentification: z.object({
+    retainTags: z.array(
+      z
+        .string()
+        .refine((tag) => parseTag(tag) !== null, (tag) => ({ message: `${tag} is not a DICOM tag or profile keyword` }))
+        .transform((tag) => parseTag(tag))
+    ),
+  }),
+});
+
+export interface UploadConfig {
+  maxFileSizeMb: number;
+  /** Limit for NIfTI volumes, which are sliced in the browser rather than uploaded. */
+  maxVolumeSizeMb: number;
+  acceptedMimeTypes: string[];
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  /** How long a cached result may be shown instead of calling the model. */
+  ttlMs: number;
+  /** Change it when new weights are served from the same URL, so older results are not reused. */
+  modelVersion?: string;
+}
+
+export interface DeidentificationConfig {
+  /**
+   * Tags this site keeps although the confidentiality profile would remove or
+   * replace them, as `(GGGG,EEEE)`, `GGGGEEEE` or a profile keyword.
+   * Normalized to `GGGGEEEE` when the config is loaded.
+   */
+  retainTags: string[];
+}
+
+export interface AppConfig {
+  inference: InferenceConfig;
+  upload: UploadConfig;
+  cache: CacheConfig;
+  deidentification: DeidentificationConfig;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export const defaultConfig: AppConfig = {
+  inference: {
+    provider: 'gradio',
+    url: '',
+    endpoint: '/predict',
+    labels: [
+      { key: 'glioma_tumor', name: 'Glioma Tumor' },
+      { key: 'meningioma_tumor', name: 'Meningioma Tumor' },
+      { key: 'no_tumor', name: 'No Tumor' },
+      { key: 'pituitary_tumor', name: 'Pituitary Tumor' },
+    ],
+    outputType: 'probabilities',
+    timeouts: {
+      connectMs: 20_000,
+      uploadMs: 30_000,
+      predictMs: 120_000,
+    },
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 1_000,
+      maxDelayMs: 10_000,
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      cooldownMs: 60_000,
+    },
+    health: {
+      intervalMs: 30_000,
+      degradedLatencyMs: 2_000,
+    },
+    connectionTtlMs: 10 * 60_000,
+  },
+  upload: {
+    maxFileSizeMb: 10,
+    maxVolumeSizeMb: 256,
+    acceptedMimeTypes: ['image/*', 'application/dicom', 'application/x-nifti'],
+  },
+  cache: {
+    enabled: true,
+    ttlMs: 24 * 60 * 60_000,
+  },
+  deidentification: {
+    retainTags: [],
+  },
+};
+
+type DeepPartial<T> = T extends unknown[] ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+type ConfigOverrides = DeepPartial<AppConfig>;
+
+const CONFIG_URL = `${import.meta.env.BASE_URL}config.json`;
+
+const fetchConfigFile = async (): Promise<ConfigOverrides> => {
+  const response = await fetch(CONFIG_URL, { cache: 'no-store' });
+
+  // A missing config.json is fine: the defaults and env vars still apply
+  if (response.status === 404) {
+    return {};
+  }
+  if (!response.ok) {
+    throw new ConfigError(`Could not load ${CONFIG_URL} (${response.status} ${response.statusText})`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new ConfigError(`${CONFIG_URL} is not valid JSON`);
+  }
+};
+
+const readEnvOverrides = (): ConfigOverrides => {
+  const env = import.meta.env;
+  const inference: Record<string, unknown> = {};
+  const upload: Record<string, unknown> = {};
+
+  if (env.VITE_INFERENCE_PROVIDER) inference.provider = env.VITE_INFERENCE_PROVIDER;
+  if (env.VITE_INFERENCE_URL) inference.url = env.VITE_INFERENCE_URL;
+  if (env.VITE_INFERENCE_ENDPOINT) inference.endpoint = env.VITE_INFERENCE_ENDPOINT;
+  if (env.VITE_ONNX_MODEL_URL) inference.onnx = { modelUrl: env.VITE_ONNX_MODEL_URL };
+  if (env.VITE_MAX_FILE_SIZE_MB) upload.maxFileSizeMb = Number(env.VITE_MAX_FILE_SIZE_MB);
+  if (env.VITE_ACCEPTED_MIME_TYPES) {
+    upload.acceptedMimeTypes = env.VITE_ACCEPTED_MIME_TYPES.split(',').map((type) => type.trim());
+  }
+
+  return { inference, upload } as ConfigOverrides;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nested objects are merged key by key; arrays and scalars are replaced
+const deepMerge = (base: unknown, override: unknown): unknown => {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged;
+};
+
+const mergeConfig = (base: AppConfig, ...overrides: ConfigOverrides[]) =>
+  overrides.reduce<unknown>((merged, override) => deepMerge(merged, override), base);
+
+/**
+ * Resolves the runtime config: built-in defaults, then `/config.json`, then
+ * `VITE_*` env vars. Throws a `ConfigError` if the result fails validation.
+ */
+export const loadConfig = async (): Promise<AppConfig> => {
+  const fileConfig = await fetchConfigFile();
+  const parsed = appConfigSchema.safeParse(mergeConfig(defaultConfig, fileConfig, readEnvOverrides()));
+
+  if (!parsed.success) {
+    throw new ConfigError(
+      'The runtime configuration is invalid',
+      parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return parsed.data as AppConfig;
+};
+
+/** Matches a MIME type against patterns such as `image/png` or `image/*`. */
+export const isAcceptedMimeType = (type: string, acceptedMimeTypes: string[]) =>
+  acceptedMimeTypes.some((pattern) =>
+    pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+  );
@@ -0,0 +1,256 @@
+/**
+ * Action codes of PS3.15 Annex E: remove the attribute (`X`), replace it with
+ * a zero-length value (`Z`), or replace a UID with a new one that is the same
+ * for every file de-identified in this session (`U`). Where the standard lets
+ * an application choose (e.g. `X/Z`), the most removing option allowed for
+ * the attribute's type is used.
+ */
+export type ProfileAction = 'X' | 'Z' | 'U';
+
+export interface ProfileAttribute {
+  /** `GGGGEEEE`, upper-case hex. */
+  tag: string;
+  keyword: string;
+  action: ProfileAction;
+}
+
+/**
+ * The attributes of Table E.1-1 (Basic Application Confidentiality Profile)
+ * found in MR and CT images and the procedure steps and requests around them.
+ */
+export const basicProfileAttributes: ProfileAttribute[] = [
+  { tag: '00080012', keyword: 'InstanceCreationDate', action: 'X' },
+  { tag: '00080013', keyword: 'InstanceCreationTime', action: 'X' },
+  { tag: '00080014', keyword: 'InstanceCreatorUID', action: 'U' },
+  { tag: '00080015', keyword: 'InstanceCoercionDateTime', action: 'X' },
+  { tag: '00080018', keyword: 'SOPInstanceUID', action: 'U' },
+  { tag: '00080020', keyword: 'StudyDate', action: 'Z' },
+  { tag: '00080021', keyword: 'SeriesDate', action: 'X' },
+  { tag: '00080022', keyword: 'AcquisitionDate', action: 'X' },
+  { tag: '00080023', keyword: 'ContentDate', action: 'Z' },
+  { tag: '00080024', keyword: 'OverlayDate', action: 'X' },
+  { tag: '00080025', keyword: 'CurveDate', action: 'X' },
+  { tag: '0008002A', keyword: 'AcquisitionDateTime', action: 'X' },
+  { tag: '00080030', keyword: 'StudyTime', action: 'Z' },
+  { tag: '00080031', keyword: 'SeriesTime', action: 'X' },
+  { tag: '00080032', keyword: 'AcquisitionTime', action: 'X' },
+  { tag: '00080033', keyword: 'ContentTime', action: 'Z' },
+  { tag: '00080050', keyword: 'AccessionNumber', action: 'Z' },
+  { tag: '00080058', keyword: 'FailedSOPInstanceUIDList', action: 'U' },
+  { tag: '00080080', keyword: 'InstitutionName', action: 'X' },
+  { tag: '00080081', keyword: 'InstitutionAddress', action: 'X' },
+  { tag: '00080082', keyword: 'InstitutionCodeSequence', action: 'X' },
+  { tag: '00080090', keyword: 'ReferringPhysicianName', action: 'Z' },
+  { tag: '00080092', keyword: 'ReferringPhysicianAddress', action: 'X' },
+  { tag: '00080094', keyword: 'ReferringPhysicianTelephoneNumbers', action: 'X' },
+  { tag: '00080096', keyword: 'ReferringPhysicianIdentificationSequence', action: 'X' },
+  { tag: '0008009C', keyword: 'ConsultingPhysicianName', action: 'X' },
+  { tag: '0008009D', keyword: 'ConsultingPhysicianIdentificationSequence', action: 'X' },
+  { tag: '00080201', keyword: 'TimezoneOffsetFromUTC', action: 'X' },
+  { tag: '00081010', keyword: 'StationName', action: 'X' },
+  { tag: '00081030', keyword: 'StudyDescription', action: 'X' },
+  { tag: '0008103E', keyword: 'SeriesDescription', action: 'X' },
+  { tag: '00081040', keyword: 'InstitutionalDepartmentName', action: 'X' },
+  { tag: '00081048', keyword: 'PhysiciansOfRecord', action: 'X' },
+  { tag: '00081049', keyword: 'PhysiciansOfRecordIdentificationSequence', action: 'X' },
+  { tag: '00081050', keyword: 'PerformingPhysicianName', action: 'X' },
+  { tag: '00081052', keyword: 'PerformingPhysicianIdentificationSequence', action: 'X' },
+  { tag: '00081060', keyword: 'NameOfPhysiciansReadingStudy', action: 'X' },
+  { tag: '00081062', keyword: 'PhysiciansReadingStudyIdentificationSequence', action: 'X' },
+  { tag: '00081070', keyword: 'OperatorsName', action: 'X' },
+  { tag: '00081072', keyword: 'OperatorIdentificationSequence', action: 'X' },
+  { tag: '00081080', keyword: 'AdmittingDiagnosesDescription', action: 'X' },
+  { tag: '00081084', keyword: 'AdmittingDiagnosesCodeSequence', action: 'X' },
+  { tag: '00081110', keyword: 'ReferencedStudySequence', action: 'X' },
+  { tag: '00081111', keyword: 'ReferencedPerformedProcedureStepSequence', action: 'X' },
+  { tag: '00081120', keyword: 'ReferencedPatientSequence', action: 'X' },
+  { tag: '00081140', keyword: 'ReferencedImageSequence', action: 'X' },
+  { tag: '00081155', keyword: 'ReferencedSOPInstanceUID', action: 'U' },
+  { tag: '00081195', keyword: 'TransactionUID', action: 'U' },
+  { tag: '00082111', keyword: 'DerivationDescription', action: 'X' },
+  { tag: '00082112', keyword: 'SourceImageSequence', action: 'X' },
+  { tag: '00084000', keyword: 'IdentifyingComments', action: 'X' },
+  { tag: '00100010', keyword: 'PatientName', action: 'Z' },
+  { tag: '00100020', keyword: 'PatientID', action: 'Z' },
+  { tag: '00100021', keyword: 'IssuerOfPatientID', action: 'X' },
+  { tag: '00100030', keyword: 'PatientBirthDate', action: 'Z' },
+  { tag: '00100032', keyword: 'PatientBirthTime', action: 'X' },
+  { tag: '00100033', keyword: 'PatientBirthDateInAlternativeCalendar', action: 'X' },
+  { tag: '00100034', keyword: 'PatientDeathDateInAlternativeCalendar', action: 'X' },
+  { tag: '00100035', keyword: 'PatientAlternativeCalendar', action: 'X' },
+  { tag: '00100040', keyword: 'PatientSex', action: 'Z' },
+  { tag: '00100050', keyword: 'PatientInsurancePlanCodeSequence', action: 'X' },
+  { tag: '00100101', keyword: 'PatientPrimaryLanguageCodeSequence', action: 'X' },
+  { tag: '00100102', keyword: 'PatientPrimaryLanguageModifierCodeSequence', action: 'X' },
+  { tag: '00101000', keyword: 'OtherPatientIDs', action: 'X' },
+  { tag: '00101001', keyword: 'OtherPatientNames', action: 'X' },
+  { tag: '00101002', keyword: 'OtherPatientIDsSequence', action: 'X' },
+  { tag: '00101005', keyword: 'PatientBirthName', action: 'X' },
+  { tag: '00101010', keyword: 'PatientAge', action: 'X' },
+  { tag: '00101020', keyword: 'PatientSize', action: 'X' },
+  { tag: '00101030', keyword: 'PatientWeight', action: 'X' },
+  { tag: '00101040', keyword: 'PatientAddress', action: 'X' },
+  { tag: '00101050', keyword: 'InsurancePlanIdentification', action: 'X' },
+  { tag: '00101060', keyword: 'PatientMotherBirthName', action: 'X' },
+  { tag: '00101080', keyword: 'MilitaryRank', action: 'X' },
+  { tag: '00101081', keyword: 'BranchOfService', action: 'X' },
+  { tag: '00101090', keyword: 'MedicalRecordLocator', action: 'X' },
+  { tag: '00101100', keyword: 'ReferencedPatientPhotoSequence', action: 'X' },
+  { tag: '00102000', keyword: 'MedicalAlerts', action: 'X' },
+  { tag: '00102110', keyword: 'Allergies', action: 'X' },
+  { tag: '00102150', keyword: 'CountryOfResidence', action: 'X' },
+  { tag: '00102152', keyword: 'RegionOfResidence', action: 'X' },
+  { tag: '00102154', keyword: 'PatientTelephoneNumbers', action: 'X' },
+  { tag: '00102160', keyword: 'EthnicGroup', action: 'X' },
+  { tag: '00102180', keyword: 'Occupation', action: 'X' },
+  { tag: '001021A0', keyword: 'SmokingStatus', action: 'X' },
+  { tag: '001021B0', keyword: 'AdditionalPatientHistory', action: 'X' },
+  { tag: '001021C0', keyword: 'PregnancyStatus', action: 'X' },
+  { tag: '001021D0', keyword: 'LastMenstrualDate', action: 'X' },
+  { tag: '001021F0', keyword: 'PatientReligiousPreference', action: 'X' },
+  { tag: '00102203', keyword: 'PatientSexNeutered', action: 'X' },
+  { tag: '00102297', keyword: 'ResponsiblePerson', action: 'X' },
+  { tag: '00102299', keyword: 'ResponsibleOrganization', action: 'X' },
+  { tag: '00104000', keyword: 'PatientComments', action: 'X' },
+  { tag: '00180010', keyword: 'ContrastBolusAgent', action: 'Z' },
+  { tag: '00181000', keyword: 'DeviceSerialNumber', action: 'X' },
+  { tag: '00181002', keyword: 'DeviceUID', action: 'U' },
+  { tag: '00181004', keyword: 'PlateID', action: 'X' },
+  { tag: '00181005', keyword: 'GeneratorID', action: 'X' },
+  { tag: '00181007', keyword: 'CassetteID', action: 'X' },
+  { tag: '00181008', keyword: 'GantryID', action: 'X' },
+  { tag: '00181030', keyword: 'ProtocolName', action: 'X' },
+  { tag: '00181200', keyword: 'DateOfLastCalibration', action: 'X' },
+  { tag: '00181201', keyword: 'TimeOfLastCalibration', action: 'X' },
+  { tag: '00181400', keyword: 'AcquisitionDeviceProcessingDescription', action: 'X' },
+  { tag: '00189424', keyword: 'AcquisitionProtocolDescription', action: 'X' },
+  { tag: '0018A003', keyword: 'ContributionDescription', action: 'X' },
+  { tag: '0020000D', keyword: 'StudyInstanceUID', action: 'U' },
+  { tag: '0020000E', keyword: 'SeriesInstanceUID', action: 'U' },
+  { tag: '00200010', keyword: 'StudyID', action: 'Z' },
+  { tag: '00200052', keyword: 'FrameOfReferenceUID', action: 'U' },
+  { tag: '00200200', keyword: 'SynchronizationFrameOfReferenceUID', action: 'U' },
+  { tag: '00204000', keyword: 'ImageComments', action: 'X' },
+  { tag: '00209158', keyword: 'FrameComments', action: 'X' },
+  { tag: '00209161', keyword: 'ConcatenationUID', action: 'U' },
+  { tag: '00209164', keyword: 'DimensionOrganizationUID', action: 'U' },
+  { tag: '00321030', keyword: 'ReasonForStudy', action: 'X' },
+  { tag: '00321032', keyword: 'RequestingPhysician', action: 'X' },
+  { tag: '00321033', keyword: 'RequestingService', action: 'X' },
+  { tag: '00321040', keyword: 'StudyArrivalDate', action: 'X' },
+  { tag: '00321041', keyword: 'StudyArrivalTime', action: 'X' },
+  { tag: '00321050', keyword: 'StudyCompletionDate', action: 'X' },
+  { tag: '00321051', keyword: 'StudyCompletionTime', action: 'X' },
+  { tag: '00321060', keyword: 'RequestedProcedureDescription', action: 'X' },
+  { tag: '00321064', keyword: 'RequestedProcedureCodeSequence', action: 'X' },
+  { tag: '00321070', keyword: 'RequestedContrastAgent', action: 'X' },
+  { tag: '00324000', keyword: 'StudyComments', action: 'X' },
+  { tag: '00380010', keyword: 'AdmissionID', action: 'X' },
+  { tag: '00380050', keyword: 'SpecialNeeds', action: 'X' },
+  { tag: '00380060', keyword: 'ServiceEpisodeID', action: 'X' },
+  { tag: '00380300', keyword: 'CurrentPatientLocation', action: 'X' },
+  { tag: '00380400', keyword: 'PatientInstitutionResidence', action: 'X' },
+  { tag: '00380500', keyword: 'PatientState', action: 'X' },
+  { tag: '00384000', keyword: 'VisitComments', action: 'X' },
+  { tag: '00400001', keyword: 'ScheduledStationAETitle', action: 'X' },
+  { tag: '00400002', keyword: 'ScheduledProcedureStepStartDate', action: 'X' },
+  { tag: '00400003', keyword: 'ScheduledProcedureStepStartTime', action: 'X' },
+  { tag: '00400004', keyword: 'ScheduledProcedureStepEndDate', action: 'X' },
+  { tag: '00400005', keyword: 'ScheduledProcedureStepEndTime', action: 'X' },
+  { tag: '00400006', keyword: 'ScheduledPerformingPhysicianName', action: 'X' },
+  { tag: '00400007', keyword: 'ScheduledProcedureStepDescription', action: 'X' },
+  { tag: '00400009', keyword: 'ScheduledProcedureStepID', action: 'X' },
+  { tag: '00400010', keyword: 'ScheduledStationName', action: 'X' },
+  { tag: '00400011', keyword: 'ScheduledProcedureStepLocation', action: 'X' },
+  { tag: '00400012', keyword: 'PreMedication', action: 'X' },
+  { tag: '00400241', keyword: 'PerformedStationAETitle', action: 'X' },
+  { tag: '00400242', keyword: 'PerformedStationName', action: 'X' },
+  { tag: '00400243', keyword: 'PerformedLocation', action: 'X' },
+  { tag: '00400244', keyword: 'PerformedProcedureStepStartDate', action: 'X' },
+  { tag: '00400245', keyword: 'PerformedProcedureStepStartTime', action: 'X' },
+  { tag: '00400250', keyword: 'PerformedProcedureStepEndDate', action: 'X' },
+  { tag: '00400251', keyword: 'PerformedProcedureStepEndTime', action: 'X' },
+  { tag: '00400253', keyword: 'PerformedProcedureStepID', action: 'X' },
+  { tag: '00400254', keyword: 'PerformedProcedureStepDescription', action: 'X' },
+  { tag: '00400275', keyword: 'RequestAttributesSequence', action: 'X' },
+  { tag: '00400280', keyword: 'CommentsOnThePerformedProcedureStep', action: 'X' },
+  { tag: '00400310', keyword: 'CommentsOnRadiationDose', action: 'X' },
+  { tag: '00400555', keyword: 'AcquisitionContextSequence', action: 'X' },
+  { tag: '00401001', keyword: 'RequestedProcedureID', action: 'X' },
+  { tag: '00401002', keyword: 'ReasonForTheRequestedProcedure', action: 'X' },
+  { tag: '00401004', keyword: 'PatientTransportArrangements', action: 'X' },
+  { tag: '00401005', keyword: 'RequestedProcedureLocation', action: 'X' },
+  { tag: '00401010', keyword: 'NamesOfIntendedRecipientsOfResults', action: 'X' },
+  { tag: '00401400', keyword: 'RequestedProcedureComments', action: 'X' },
+  { tag: '00402001', keyword: 'ReasonForTheImagingServiceRequest', action: 'X' },
+  { tag: '00402008', keyword: 'OrderEnteredBy', action: 'X' },
+  { tag: '00402009', keyword: 'OrderEntererLocation', action: 'X' },
+  { tag: '00402010', keyword: 'OrderCallbackPhoneNumber', action: 'X' },
+  { tag: '00402016', keyword: 'PlacerOrderNumberImagingServiceRequest', action: 'Z' },
+  { tag: '00402017', keyword: 'FillerOrderNumberImagingServiceRequest', action: 'Z' },
+  { tag: '00402400', keyword: 'ImagingServiceRequestComments', action: 'X' },
+  { tag: '00403001', keyword: 'ConfidentialityConstraintOnPatientDataDescription', action: 'X' },
+  { tag: '0040A124', keyword: 'UID', action: 'U' },
+  { tag: '0040A171', keyword: 'ObservationUID', action: 'U' },
+  { tag: '0040A730', keyword: 'ContentSequence', action: 'X' },
+  { tag: '00700084', keyword: 'ContentCreatorName', action: 'Z' },
+  { tag: '00880140', keyword: 'StorageMediaFileSetUID', action: 'U' },
+  { tag: '00880200', keyword: 'IconImageSequence', action: 'X' },
+  { tag: '00880904', keyword: 'TopicTitle', action: 'X' },
+  { tag: '00880906', keyword: 'TopicSubject', action: 'X' },
+  { tag: '00880910', keyword: 'TopicAuthor', action: 'X' },
+  { tag: '00880912', keyword: 'TopicKeywords', action: 'X' },
+  { tag: '30060024', keyword: 'ReferencedFrameOfReferenceUID', action: 'U' },
+];
+
+// UIDs that name a class of the standard rather than an instance, so they identify nobody
+const classUidTags = new Set(['00080016', '0008001A', '0008001B', '00080062', '00081150']);
+
+const freeTextVrs = new Set(['LO', 'LT', 'SH', 'ST', 'UC', 'UT']);
+
+// Text that names the equipment or the acquisition technique, never a person
+// or a place; the scanner's make and model also pick its redaction template
+const keptTextTags = new Set([
+  '00080070', // Manufacturer
+  '00081090', // ManufacturerModelName
+  '00180024', // SequenceName
+  '00180085', // ImagedNucleus
+  '00181020', // SoftwareVersions
+  '00181160', // FilterType
+  '00181210', // ConvolutionKernel
+  '00181250', // ReceiveCoilName
+  '00181251', // TransmitCoilName
+  '00281054', // RescaleType
+  '00281055', // WindowCenterWidthExplanation
+]);
+
+/**
+ * The action for an attribute the table does not list, by its value
+ * representation: dates, times and names are emptied, instance UIDs replaced
+ * and free text removed unless it is known to be harmless, so a gap in the
+ * table cannot let them through. An attribute whose VR is unknown is removed.
+ */
+export const actionForVr = (tag: string, vr: string | undefined): ProfileAction | null => {
+  if (vr === undefined) return 'X';
+  if (vr === 'DA' || vr === 'DT' || vr === 'TM' || vr === 'PN') return 'Z';
+  if (vr === 'UI' && !classUidTags.has(tag)) return 'U';
+  if (freeTextVrs.has(vr) && !keptTextTags.has(tag)) return 'X';
+  return null;
+};
+
+const TAG_PATTERN = /^\(?([0-9a-f]{4}),?([0-9a-f]{4})\)?$/i;
+
+/**
+ * Normalizes a tag written as `(0010,0040)`, `0010,0040`, `00100040` or a
+ * keyword of the profile table to `GGGGEEEE`; `null` if it is none of those.
+ */
+export const parseTag = (value: string) => {
+  const match = TAG_PATTERN.exec(value.trim());
+  if (match) {
+    return `${match[1]}${match[2]}`.toUpperCase();
+  }
+  return basicProfileAttributes.find((attribute) => attribute.keyword === value.trim())?.tag ?? null;
+};
+
+/** `GGGGEEEE` as `(GGGG,EEEE)`. */
+export const formatTag = (tag: string) => `(${tag.slice(0, 4)},${tag.slice(4)})`;
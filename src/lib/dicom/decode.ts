@@ -0,0 +1,225 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet, Element } from 'dicom-parser';
+import { Decoder as JpegLosslessDecoder } from 'jpeg-lossless-decoder-js';
+import { DicomError, type DicomMetadata, type ParsedDicom } from './parse';
+import { describeTransferSyntax } from './transfer-syntax';
+
+/** One decoded frame, ready for windowing. */
+export interface DicomFrame {
+  width: number;
+  height: number;
+  samplesPerPixel: 1 | 3;
+  /**
+   * Modality values (rescale slope and intercept applied) for grayscale
+   * images; interleaved 8-bit RGB for colour ones.
+   */
+  data: Float32Array;
+}
+
+const RLE_HEADER_LENGTH = 64;
+
+const encapsulatedFrame = (dataSet: DataSet, pixelData: Element, frameIndex: number, numberOfFrames: number) => {
+  if (numberOfFrames === 1) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelData, 0, pixelData.fragments.length);
+  }
+  if (pixelData.basicOffsetTable.length > 0) {
+    return dicomParser.readEncapsulatedImageFrame(dataSet, pixelData, frameIndex);
+  }
+  // Without an offset table, assume one fragment per frame as most encoders write
+  return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelData, frameIndex, 1);
+};
+
+/** Reads stored sample values, masking unused high bits and sign-extending as needed. */
+const readNativeSamples = (bytes: Uint8Array, metadata: DicomMetadata, littleEndian: boolean) => {
+  const { bitsAllocated, bitsStored, pixelRepresentation } = metadata;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bitsAllocated / 8;
+  const count = Math.floor(bytes.byteLength / bytesPerSample);
+  const samples = new Float32Array(count);
+  const signBit = 2 ** (bitsStored - 1);
+  const range = 2 ** bitsStored;
+
+  for (let index = 0; index < count; index++) {
+    let value: number;
+    switch (bitsAllocated) {
+      case 8:
+        value = view.getUint8(index);
+        break;
+      case 16:
+        value = view.getUint16(index * 2, littleEndian);
+        break;
+      case 32:
+        value = view.getUint32(index * 4, littleEndian);
+        break;
+      default:
+        throw new DicomError(`${bitsAllocated}-bit pixel data is not supported`);
+    }
+
+    value %= range;
+    samples[index] = pixelRepresentation === 1 && value >= signBit ? value - range : value;
+  }
+  return samples;
+};
+
+/** PackBits-decodes one RLE segment into `output`. */
+const decodeRleSegment = (segment: Uint8Array, output: Uint8Array) => {
+  let inPosition = 0;
+  let outPosition = 0;
+  while (inPosition < segment.length && outPosition < output.length) {
+    const header = (segment[inPosition++] << 24) >> 24;
+    if (header >= 0) {
+      const length = header + 1;
+      output.set(segment.subarray(inPosition, inPosition + length), outPosition);
+      inPosition += length;
+      outPosition += length;
+    } else if (header > -128) {
+      const length = 1 - header;
+      output.fill(segment[inPosition++], outPosition, outPosition + length);
+      outPosition += length;
+    }
+  }
+};
+
+// RLE stores each byte of each sample as its own segment, most significant
+// byte first; this reassembles them into interleaved little endian samples.
+const decodeRle = (frame: Uint8Array, metadata: DicomMetadata) => {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const segmentCount = view.getUint32(0, true);
+  const bytesPerSample = metadata.bitsAllocated / 8;
+  if (segmentCount !== bytesPerSample * metadata.samplesPerPixel) {
+    throw new DicomError(`The RLE frame has ${segmentCount} segments, which does not match its pixel format`);
+  }
+
+  const pixelCount = metadata.rows * metadata.columns;
+  const planeStride = bytesPerSample * metadata.samplesPerPixel;
+  const output = new Uint8Array(pixelCount * planeStride);
+  const plane = new Uint8Array(pixelCount);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const start = view.getUint32(4 + segment * 4, true);
+    const end = segment + 1 < segmentCount ? view.getUint32(8 + segment * 4, true) : frame.byteLength;
+    plane.fill(0);
+    decodeRleSegment(frame.subarray(start, end), plane);
+
+    const sample = Math.floor(segment / bytesPerSample);
+    const byte = bytesPerSample - 1 - (segment % bytesPerSample);
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      output[pixel * planeStride + sample * bytesPerSample + byte] = plane[pixel];
+    }
+  }
+  return output;
+};
+
+const decodeJpegBaseline = async (frame: Uint8Array, metadata: DicomMetadata) => {
+  const bitmap = await createImageBitmap(new Blob([frame], { type: 'image/jpeg' }));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  const samplesPerPixel = metadata.samplesPerPixel === 3 ? 3 : 1;
+  const samples = new Float32Array(canvas.width * canvas.height * samplesPerPixel);
+  for (let pixel = 0; pixel < canvas.width * canvas.height; pixel++) {
+    for (let sample = 0; sample < samplesPerPixel; sample++) {
+      samples[pixel * samplesPerPixel + sample] = data[pixel * 4 + sample];
+    }
+  }
+  return samples;
+};
+
+const decodeJpegLossless = (frame: Uint8Array, metadata: DicomMetadata) => {
+  const decoded = new JpegLosslessDecoder().decode(
+    frame.buffer,
+    frame.byteOffset,
+    frame.byteLength,
+    metadata.bitsAllocated > 8 ? 2 : 1
+  );
+  // The decoder writes samples in platform (little endian) byte order
+  return new Uint8Array(decoded.buffer, decoded.byteOffset, decoded.byteLength);
+};
+
+// Colour images are returned interleaved regardless of planar configuration
+const interleave = (samples: Float32Array, pixelCount: number) => {
+  const interleaved = new Float32Array(samples.length);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    for (let sample = 0; sample < 3; sample++) {
+      interleaved[pixel * 3 + sample] = samples[sample * pixelCount + pixel];
+    }
+  }
+  return interleaved;
+};
+
+/** Decodes frame `frameIndex` of a parsed DICOM file. */
+export const decodeDicomFrame = async ({ dataSet, metadata, littleEndian }: ParsedDicom, frameIndex = 0): Promise<DicomFrame> => {
+  const pixelData = dataSet.elements.x7fe00010;
+  if (!pixelData) {
+    throw new DicomError('The DICOM file has no pixel data');
+  }
+  if (frameIndex < 0 || frameIndex >= metadata.numberOfFrames) {
+    throw new DicomError(`Frame ${frameIndex + 1} does not exist; the file has ${metadata.numberOfFrames}`);
+  }
+  if (metadata.samplesPerPixel !== 1 && metadata.samplesPerPixel !== 3) {
+    throw new DicomError(`Images with ${metadata.samplesPerPixel} samples per pixel are not supported`);
+  }
+
+  const { encoding, name } = describeTransferSyntax(metadata.transferSyntaxUid);
+  const pixelCount = metadata.rows * metadata.columns;
+  const frameLength = (pixelCount * metadata.samplesPerPixel * metadata.bitsAllocated) / 8;
+  let samples: Float32Array;
+  let planar = metadata.planarConfiguration === 1;
+
+  switch (encoding) {
+    case 'native':
+    case 'deflate': {
+      const offset = pixelData.dataOffset + frameIndex * frameLength;
+      samples = readNativeSamples(dataSet.byteArray.subarray(offset, offset + frameLength), metadata, littleEndian);
+      break;
+    }
+    case 'rle':
+      samples = readNativeSamples(
+        decodeRle(encapsulatedFrame(dataSet, pixelData, frameIndex, metadata.numberOfFrames), metadata),
+        metadata,
+        true
+      );
+      planar = false;
+      break;
+    case 'jpeg-baseline':
+      samples = await decodeJpegBaseline(encapsulatedFrame(dataSet, pixelData, frameIndex, metadata.numberOfFrames), metadata);
+      planar = false;
+      break;
+    case 'jpeg-lossless':
+      samples = readNativeSamples(
+        decodeJpegLossless(encapsulatedFrame(dataSet, pixelData, frameIndex, metadata.numberOfFrames), metadata),
+        metadata,
+        true
+      );
+      planar = false;
+      break;
+    default:
+      throw new DicomError(
+        `${name} images cannot be decoded in the browser. Export the series as uncompressed or JPEG Lossless DICOM.`
+      );
+  }
+
+  if (samples.length < pixelCount * metadata.samplesPerPixel) {
+    throw new DicomError('The pixel data is shorter than the image dimensions require');
+  }
+
+  if (metadata.samplesPerPixel === 3) {
+    return {
+      width: metadata.columns,
+      height: metadata.rows,
+      samplesPerPixel: 3,
+      data: planar ? interleave(samples, pixelCount) : samples,
+    };
+  }
+
+  const { rescaleSlope, rescaleIntercept } = metadata;
+  if (rescaleSlope !== 1 || rescaleIntercept !== 0) {
+    for (let index = 0; index < samples.length; index++) {
+      samples[index] = samples[index] * rescaleSlope + rescaleIntercept;
+    }
+  }
+  return { width: metadata.columns, height: metadata.rows, samplesPerPixel: 1, data: samples.subarray(0, pixelCount) };
+};
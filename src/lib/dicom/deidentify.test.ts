@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { deidentifyDicom } from './deidentify';
+import { DicomError, parseDicomFile } from './parse';
+import { IMPLICIT_VR_LITTLE_ENDIAN } from './transfer-syntax';
+
+const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+const MR_IMAGE_STORAGE = '1.2.840.10008.5.1.4.1.1.4';
+
+type Attribute = [tag: string, vr: string, value: string | Uint8Array];
+
+const encoder = new TextEncoder();
+
+const uint16 = (value: number) => new Uint8Array(new Uint16Array([value]).buffer);
+
+// Values have an even length: UIDs are padded with NUL, text with a space
+const valueBytes = (vr: string, value: string | Uint8Array) => {
+  const bytes = typeof value === 'string' ? encoder.encode(value) : value;
+  if (bytes.length % 2 === 0) return bytes;
+  return new Uint8Array([...bytes, vr === 'UI' ? 0 : 0x20]);
+};
+
+const element = ([tag, vr, value]: Attribute, explicit: boolean) => {
+  const bytes = valueBytes(vr, value);
+  const longLength = explicit && ['OB', 'OW', 'SQ', 'UN', 'UT'].includes(vr);
+  const header = new DataView(new ArrayBuffer(longLength ? 12 : 8));
+  header.setUint16(0, parseInt(tag.slice(0, 4), 16), true);
+  header.setUint16(2, parseInt(tag.slice(4), 16), true);
+  if (!explicit) {
+    header.setUint32(4, bytes.length, true);
+  } else {
+    header.setUint8(4, vr.charCodeAt(0));
+    header.setUint8(5, vr.charCodeAt(1));
+    if (longLength) header.setUint32(8, bytes.length, true);
+    else header.setUint16(6, bytes.length, true);
+  }
+  return new Uint8Array([...new Uint8Array(header.buffer), ...bytes]);
+};
+
+// A 2x2 MR image, so the file parses, plus the attributes under test
+const imageAttributes: Attribute[] = [
+  ['00080016', 'UI', MR_IMAGE_STORAGE],
+  ['00080018', 'UI', '1.2.3.4.5.6'],
+  ['00280002', 'US', uint16(1)],
+  ['00280004', 'CS', 'MONOCHROME2'],
+  ['00280010', 'US', uint16(2)],
+  ['00280011', 'US', uint16(2)],
+  ['00280100', 'US', uint16(8)],
+  ['00280101', 'US', uint16(8)],
+  ['00280103', 'US', uint16(0)],
+  ['7FE00010', 'OB', new Uint8Array([0, 64, 128, 255])],
+];
+
+const dicomFile = (attributes: Attribute[], transferSyntaxUid = EXPLICIT_VR_LITTLE_ENDIAN) => {
+  const explicit = transferSyntaxUid !== IMPLICIT_VR_LITTLE_ENDIAN;
+  const meta = element(['00020010', 'UI', transferSyntaxUid], true);
+  const groupLength = new Uint8Array(new Uint32Array([meta.length]).buffer);
+  const body = [...imageAttributes, ...attributes]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap((attribute) => [...element(attribute, explicit)]);
+  return new Uint8Array([
+    ...new Uint8Array(128),
+    ...encoder.encode('DICM'),
+    ...element(['00020000', 'UL', groupLength], true),
+    ...meta,
+    ...body,
+  ]);
+};
+
+const patient: Attribute[] = [
+  ['00080020', 'DA', '20240131'],
+  ['00080070', 'LO', 'ACME Medical'],
+  ['00081030', 'LO', 'MRI BRAIN W/O CONTRAST'],
+  ['00100010', 'PN', 'Doe^Jane'],
+  ['00100020', 'LO', 'MRN-0042'],
+  ['0020000D', 'UI', '1.2.3.4'],
+  ['0020000E', 'UI', '1.2.3.4.5'],
+];
+
+const deidentify = async (attributes: Attribute[], retainTags: string[] = [], transferSyntaxUid?: string) => {
+  const { bytes, changes } = await deidentifyDicom(dicomFile(attributes, transferSyntaxUid), { retainTags });
+  const { dataSet } = await parseDicomFile(bytes);
+  const value = (tag: string) => dataSet.string(`x${tag.toLowerCase()}`);
+  const has = (tag: string) => dataSet.elements[`x${tag.toLowerCase()}`] !== undefined;
+  const change = (tag: string) => changes.find((entry) => entry.tag === `(${tag.slice(0, 4)},${tag.slice(4)})`);
+  return { value, has, change, changes };
+};
+
+describe('parseDicomFile', () => {
+  it('reads the header fields of an image', async () => {
+    const { metadata } = await parseDicomFile(dicomFile(patient));
+    expect(metadata).toMatchObject({
+      transferSyntaxUid: EXPLICIT_VR_LITTLE_ENDIAN,
+      patientName: 'Doe Jane',
+      patientId: 'MRN-0042',
+      studyDate: '20240131',
+      manufacturer: 'ACME Medical',
+      rows: 2,
+      columns: 2,
+      bitsAllocated: 8,
+      photometricInterpretation: 'MONOCHROME2',
+    });
+  });
+
+  it('rejects a truncated file', async () => {
+    await expect(parseDicomFile(dicomFile([]).subarray(0, 200))).rejects.toBeInstanceOf(DicomError);
+  });
+});
+
+describe('deidentifyDicom', () => {
+  it('applies the actions of the profile', async () => {
+    const { value, has, change } = await deidentify(patient);
+
+    expect(value('00100010')).toBeUndefined();
+    expect(has('00100010')).toBe(true);
+    expect(change('00100010')).toMatchObject({ name: 'PatientName', change: 'emptied', before: 'Doe^Jane' });
+    expect(value('00080020')).toBeUndefined();
+    expect(has('00081030')).toBe(false);
+    expect(change('00081030')).toMatchObject({ name: 'StudyDescription', change: 'removed' });
+  });
+
+  it('replaces instance UIDs consistently and keeps class UIDs', async () => {
+    const first = await deidentify(patient);
+    const second = await deidentify(patient);
+
+    expect(first.value('0020000D')).toMatch(/^2\.25\.\d+$/);
+    expect(first.value('0020000D')).not.toBe(first.value('0020000E'));
+    expect(second.value('0020000D')).toBe(first.value('0020000D'));
+    expect(first.value('00080016')).toBe(MR_IMAGE_STORAGE);
+    expect(first.change('00080016')).toBeUndefined();
+  });
+
+  it('handles attributes the profile does not list by their VR', async () => {
+    const { has, value, change } = await deidentify([
+      ['00201234', 'PN', 'Roe^Richard'],
+      ['00201236', 'LO', 'Referred by Dr Roe'],
+      ['00201238', 'DA', '20240130'],
+    ]);
+
+    expect(change('00201234')).toMatchObject({ name: 'Person name', change: 'emptied' });
+    expect(value('00201234')).toBeUndefined();
+    expect(change('00201236')).toMatchObject({ name: 'Text', change: 'removed' });
+    expect(has('00201236')).toBe(false);
+    expect(change('00201238')).toMatchObject({ name: 'Date or time', change: 'emptied' });
+  });
+
+  it('keeps text that describes the equipment', async () => {
+    const { value, change } = await deidentify([...patient, ['00181250', 'SH', 'HEAD 32']]);
+    expect(value('00080070')).toBe('ACME Medical');
+    expect(value('00181250')).toBe('HEAD 32');
+    expect(change('00080070')).toBeUndefined();
+  });
+
+  it('removes private attributes, whatever their VR', async () => {
+    const { has, change } = await deidentify([
+      ['00290010', 'LO', 'SIEMENS CSA HEADER'],
+      ['00291010', 'PN', 'Doe^Jane'],
+    ]);
+    expect(has('00290010')).toBe(false);
+    expect(has('00291010')).toBe(false);
+    expect(change('00291010')).toMatchObject({ name: 'Private attribute', change: 'removed' });
+  });
+
+  it('keeps retained tags as they are', async () => {
+    const { value, change } = await deidentify(patient, ['00100020']);
+    expect(value('00100020')).toBe('MRN-0042');
+    expect(change('00100020')).toMatchObject({ change: 'retained', after: 'MRN-0042' });
+  });
+
+  it('records that the file was de-identified', async () => {
+    const { value, change } = await deidentify([...patient, ['00120062', 'CS', 'NO']]);
+    expect(value('00120062')).toBe('YES');
+    expect(value('00120063')).toBe('PS3.15 Basic Application Confidentiality Profile');
+    expect(change('00120062')).toMatchObject({ change: 'added', after: 'YES' });
+  });
+
+  it('looks up the VR of implicit VR attributes in the dictionary', async () => {
+    const { has, value, change } = await deidentify(
+      [...patient, ['00201040', 'LO', 'NASION'], ['00201234', 'LO', 'Anything']],
+      [],
+      IMPLICIT_VR_LITTLE_ENDIAN
+    );
+
+    expect(value('00100010')).toBeUndefined();
+    expect(value('00080070')).toBe('ACME Medical');
+    expect(change('00201040')).toMatchObject({ name: 'PositionReferenceIndicator', change: 'removed' });
+    expect(has('00201040')).toBe(false);
+    // Without a VR, an attribute the dictionary does not know is removed
+    expect(change('00201234')).toMatchObject({ name: 'Attribute', change: 'removed' });
+    expect(value('0020000D')).toMatch(/^2\.25\.\d+$/);
+  });
+});
@@ -0,0 +1,243 @@
+import type { DataSet, Element } from 'dicom-parser';
+import { actionForVr, basicProfileAttributes, formatTag } from './confidentiality-profile';
+import { lookupAttribute } from './dictionary';
+import { DicomError, parseDicomFile } from './parse';
+import { DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN, describeTransferSyntax, IMPLICIT_VR_LITTLE_ENDIAN } from './transfer-syntax';
+
+export interface DeidentificationOptions {
+  /** Tags (`GGGGEEEE`) kept as they are, whatever the profile says. */
+  retainTags: string[];
+}
+
+export type TagChangeKind = 'removed' | 'emptied' | 'replaced' | 'added' | 'retained';
+
+/** One line of the before/after diff. Plain data, so it can cross a worker boundary. */
+export interface TagChange {
+  /** `(GGGG,EEEE)` */
+  tag: string;
+  name: string;
+  change: TagChangeKind;
+  before?: string;
+  after?: string;
+}
+
+export interface DeidentifiedDicom {
+  /** A Part 10 file holding only what the profile and the retained tags let through. */
+  bytes: Uint8Array;
+  changes: TagChange[];
+}
+
+const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+const IMPLEMENTATION_CLASS_UID = '2.25.202022465114052067469864191361719244425';
+const DEIDENTIFICATION_METHOD = 'PS3.15 Basic Application Confidentiality Profile';
+
+// VRs with a 4-byte length in explicit VR (PS3.5 7.1.2)
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+// dicom-parser reads these with a 2-byte length, so whatever follows them is misread
+const UNSUPPORTED_VRS = new Set(['OV', 'SV', 'UV']);
+
+const profile = new Map(basicProfileAttributes.map((attribute) => [attribute.tag, attribute]));
+
+const encoder = new TextEncoder();
+
+// UIDs are replaced by a salted hash, so files of one study still share
+// their study and series UIDs, but no UID can be traced back across sessions
+let uidSalt: Uint8Array | null = null;
+
+const replacementUid = async (uid: string) => {
+  uidSalt ??= crypto.getRandomValues(new Uint8Array(16));
+  const input = new Uint8Array([...uidSalt, ...encoder.encode(uid)]);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+  // A UUID-derived UID (PS3.5 B.2) from the first 128 bits of the hash
+  const value = digest.slice(0, 16).reduce((total, byte) => total * 256n + BigInt(byte), 0n);
+  return `2.25.${value}`;
+};
+
+// Values have an even length: UIDs are padded with NUL, text with a space
+const encodeValue = (value: string, vr: string) => {
+  const bytes = encoder.encode(value);
+  if (bytes.length % 2 === 0) return bytes;
+  const padded = new Uint8Array(bytes.length + 1);
+  padded.set(bytes);
+  padded[bytes.length] = vr === 'UI' ? 0 : 0x20;
+  return padded;
+};
+
+const encodeElement = (tag: string, vr: string, value: Uint8Array, explicit: boolean) => {
+  const longLength = explicit && LONG_LENGTH_VRS.has(vr);
+  const headerSize = longLength ? 12 : 8;
+  const bytes = new Uint8Array(headerSize + value.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, parseInt(tag.slice(0, 4), 16), true);
+  view.setUint16(2, parseInt(tag.slice(4), 16), true);
+  if (!explicit) {
+    view.setUint32(4, value.length, true);
+  } else {
+    bytes[4] = vr.charCodeAt(0);
+    bytes[5] = vr.charCodeAt(1);
+    if (longLength) view.setUint32(8, value.length, true);
+    else view.setUint16(6, value.length, true);
+  }
+  bytes.set(value, headerSize);
+  return bytes;
+};
+
+const headerSize = (element: Element, explicit: boolean) =>
+  explicit && LONG_LENGTH_VRS.has(element.vr) ? 12 : 8;
+
+// Implicit VR files carry no VR, and `UN` says nothing about the value either
+const vrOf = (tag: string, element: Element) =>
+  element.vr && element.vr !== 'UN' ? element.vr : lookupAttribute(tag)?.vr;
+
+const isSequence = (tag: string, element: Element) => vrOf(tag, element) === 'SQ' || element.items !== undefined;
+
+// Curve data (50xx) and overlay data and comments (60xx,3000 and 60xx,4000)
+const isCurveOrOverlay = (tag: string) =>
+  /^50[0-9A-F]{2}/.test(tag) || /^60[0-9A-F]{2}(3000|4000)$/.test(tag);
+
+const isPrivate = (tag: string) => parseInt(tag.slice(0, 4), 16) % 2 === 1;
+
+const describeValue = (dataSet: DataSet, element: Element, tag: string) => {
+  if (isSequence(tag, element)) return `${element.items?.length ?? 0} item(s)`;
+  if (isPrivate(tag) || isCurveOrOverlay(tag) || element.length > 256) return `${element.length} bytes`;
+  return dataSet.string(element.tag) ?? '';
+};
+
+const nameOf = (tag: string, element: Element) => {
+  if (profile.has(tag)) return profile.get(tag).keyword;
+  if (isPrivate(tag)) return 'Private attribute';
+  if (isCurveOrOverlay(tag)) return 'Curve or overlay data';
+  if (lookupAttribute(tag)) return lookupAttribute(tag).keyword;
+  if (isSequence(tag, element)) return 'Sequence';
+
+  const vr = vrOf(tag, element);
+  if (vr === 'UI') return 'UID';
+  if (vr === 'PN') return 'Person name';
+  if (['DA', 'DT', 'TM'].includes(vr)) return 'Date or time';
+  return ['LO', 'LT', 'SH', 'ST', 'UC', 'UT'].includes(vr) ? 'Text' : 'Attribute';
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/**
+ * Applies the Basic Application Confidentiality Profile to the header of a
+ * DICOM file. Private attributes, curves and overlays are removed too, and
+ * so are sequences the profile does not cover, since their items are not
+ * rewritten; dates, times, names, UIDs and free text it does not list are
+ * handled by their VR, looked up in the dictionary for implicit VR files.
+ * Pixel data is left untouched. `retainTags` overrides all of it.
+ */
+export const deidentifyDicom = async (
+  bytes: Uint8Array,
+  { retainTags }: DeidentificationOptions
+): Promise<DeidentifiedDicom> => {
+  const { dataSet, metadata } = await parseDicomFile(bytes);
+  if (!describeTransferSyntax(metadata.transferSyntaxUid).littleEndian) {
+    throw new DicomError(`${metadata.transferSyntax} files cannot be de-identified`);
+  }
+
+  // A deflated data set has already been inflated, and is written out as such
+  const transferSyntaxUid =
+    metadata.transferSyntaxUid === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN ? EXPLICIT_VR_LITTLE_ENDIAN : metadata.transferSyntaxUid;
+  const explicit = transferSyntaxUid !== IMPLICIT_VR_LITTLE_ENDIAN;
+  const retained = new Set(retainTags);
+
+  // Top-level elements of the data set, in file order. Each one runs up to the
+  // next, which also covers the delimiters of undefined-length elements.
+  const elements = Object.values(dataSet.elements)
+    .filter((element) => !element.tag.startsWith('x0002'))
+    .sort((a, b) => a.dataOffset - b.dataOffset);
+  if (elements.some((element) => UNSUPPORTED_VRS.has(element.vr))) {
+    throw new DicomError('Files with 64-bit (OV, SV or UV) attributes cannot be de-identified');
+  }
+  const starts = elements.map((element) => element.dataOffset - headerSize(element, explicit));
+
+  const body: { tag: string; bytes: Uint8Array }[] = [];
+  const changes: TagChange[] = [];
+  let sopInstanceUid = dataSet.string('x00080018');
+
+  for (const [index, element] of elements.entries()) {
+    const tag = element.tag.slice(1).toUpperCase();
+    const raw = dataSet.byteArray.subarray(starts[index], starts[index + 1] ?? dataSet.byteArray.length);
+    const attribute = profile.get(tag);
+    const vr = vrOf(tag, element);
+    // Private attributes, curves and overlays are removed, whatever their VR
+    const vrAction = attribute || isPrivate(tag) || isCurveOrOverlay(tag) ? null : actionForVr(tag, vr);
+    const covered = attribute || vrAction || isPrivate(tag) || isCurveOrOverlay(tag) || isSequence(tag, element);
+    const change = { tag: formatTag(tag), name: nameOf(tag, element), before: describeValue(dataSet, element, tag) };
+
+    // Rewritten below, whatever the file said
+    if (tag === '00120062' || tag === '00120063') {
+      continue;
+    }
+    if (!covered) {
+      body.push({ tag, bytes: raw });
+      continue;
+    }
+    if (retained.has(tag)) {
+      body.push({ tag, bytes: raw });
+      changes.push({ ...change, change: 'retained', after: change.before });
+      continue;
+    }
+
+    const action = attribute?.action ?? vrAction ?? 'X';
+    if (action === 'X' || (action === 'U' && isSequence(tag, element))) {
+      changes.push({ ...change, change: 'removed' });
+    } else if (action === 'Z') {
+      body.push({ tag, bytes: encodeElement(tag, vr ?? element.vr, new Uint8Array(), explicit) });
+      changes.push({ ...change, change: 'emptied', after: '' });
+    } else {
+      const uids = (dataSet.string(element.tag) ?? '').split('\\').filter(Boolean);
+      const replaced = (await Promise.all(uids.map(replacementUid))).join('\\');
+      if (tag === '00080018') sopInstanceUid = replaced;
+      body.push({ tag, bytes: encodeElement(tag, 'UI', encodeValue(replaced, 'UI'), explicit) });
+      changes.push({ ...change, change: 'replaced', after: replaced });
+    }
+  }
+
+  // Records what was done, as PS3.15 E.1.1 requires
+  for (const [tag, vr, value] of [
+    ['00120062', 'CS', 'YES'],
+    ['00120063', 'LO', DEIDENTIFICATION_METHOD],
+  ]) {
+    body.push({ tag, bytes: encodeElement(tag, vr, encodeValue(value, vr), explicit) });
+    changes.push({
+      tag: formatTag(tag),
+      name: tag === '00120062' ? 'PatientIdentityRemoved' : 'DeidentificationMethod',
+      change: 'added',
+      after: value,
+    });
+  }
+  body.sort((a, b) => a.tag.localeCompare(b.tag));
+
+  const sopClassUid = dataSet.string('x00020002') ?? dataSet.string('x00080016') ?? '';
+  const meta = [
+    encodeElement('00020001', 'OB', new Uint8Array([0, 1]), true),
+    encodeElement('00020002', 'UI', encodeValue(sopClassUid, 'UI'), true),
+    encodeElement('00020003', 'UI', encodeValue(sopInstanceUid ?? '', 'UI'), true),
+    encodeElement('00020010', 'UI', encodeValue(transferSyntaxUid, 'UI'), true),
+    encodeElement('00020012', 'UI', encodeValue(IMPLEMENTATION_CLASS_UID, 'UI'), true),
+  ];
+  const groupLength = new Uint8Array(4);
+  new DataView(groupLength.buffer).setUint32(0, meta.reduce((total, element) => total + element.length, 0), true);
+
+  return {
+    bytes: concat([
+      new Uint8Array(128),
+      encoder.encode('DICM'),
+      encodeElement('00020000', 'UL', groupLength, true),
+      ...meta,
+      ...body.map((element) => element.bytes),
+    ]),
+    changes: changes.sort((a, b) => a.tag.localeCompare(b.tag)),
+  };
+};
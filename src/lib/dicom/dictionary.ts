@@ -0,0 +1,125 @@
+export interface DictionaryAttribute {
+  /** `GGGGEEEE`, upper-case hex. */
+  tag: string;
+  keyword: string;
+  vr: string;
+}
+
+/**
+ * Value representations of the standard attributes of MR and CT images that
+ * the confidentiality profile's table does not list. Implicit VR files carry
+ * no VR, so the de-identifier looks them up here; an attribute missing from
+ * both tables is removed, since nothing tells what it may hold.
+ */
+export const standardAttributes: DictionaryAttribute[] = [
+  { tag: '00080005', keyword: 'SpecificCharacterSet', vr: 'CS' },
+  { tag: '00080008', keyword: 'ImageType', vr: 'CS' },
+  { tag: '00080016', keyword: 'SOPClassUID', vr: 'UI' },
+  { tag: '0008001A', keyword: 'RelatedGeneralSOPClassUID', vr: 'UI' },
+  { tag: '0008001B', keyword: 'OriginalSpecializedSOPClassUID', vr: 'UI' },
+  { tag: '00080060', keyword: 'Modality', vr: 'CS' },
+  { tag: '00080062', keyword: 'SOPClassesInStudy', vr: 'UI' },
+  { tag: '00080064', keyword: 'ConversionType', vr: 'CS' },
+  { tag: '00080068', keyword: 'PresentationIntentType', vr: 'CS' },
+  { tag: '00080070', keyword: 'Manufacturer', vr: 'LO' },
+  { tag: '00081090', keyword: 'ManufacturerModelName', vr: 'LO' },
+  { tag: '00081150', keyword: 'ReferencedSOPClassUID', vr: 'UI' },
+  { tag: '00082218', keyword: 'AnatomicRegionSequence', vr: 'SQ' },
+  { tag: '00089205', keyword: 'PixelPresentation', vr: 'CS' },
+  { tag: '00089206', keyword: 'VolumetricProperties', vr: 'CS' },
+  { tag: '00089207', keyword: 'VolumeBasedCalculationTechnique', vr: 'CS' },
+  { tag: '00089208', keyword: 'ComplexImageComponent', vr: 'CS' },
+  { tag: '00089209', keyword: 'AcquisitionContrast', vr: 'CS' },
+  { tag: '00180015', keyword: 'BodyPartExamined', vr: 'CS' },
+  { tag: '00180020', keyword: 'ScanningSequence', vr: 'CS' },
+  { tag: '00180021', keyword: 'SequenceVariant', vr: 'CS' },
+  { tag: '00180022', keyword: 'ScanOptions', vr: 'CS' },
+  { tag: '00180023', keyword: 'MRAcquisitionType', vr: 'CS' },
+  { tag: '00180024', keyword: 'SequenceName', vr: 'SH' },
+  { tag: '00180025', keyword: 'AngioFlag', vr: 'CS' },
+  { tag: '00180050', keyword: 'SliceThickness', vr: 'DS' },
+  { tag: '00180060', keyword: 'KVP', vr: 'DS' },
+  { tag: '00180080', keyword: 'RepetitionTime', vr: 'DS' },
+  { tag: '00180081', keyword: 'EchoTime', vr: 'DS' },
+  { tag: '00180082', keyword: 'InversionTime', vr: 'DS' },
+  { tag: '00180083', keyword: 'NumberOfAverages', vr: 'DS' },
+  { tag: '00180084', keyword: 'ImagingFrequency', vr: 'DS' },
+  { tag: '00180085', keyword: 'ImagedNucleus', vr: 'SH' },
+  { tag: '00180086', keyword: 'EchoNumbers', vr: 'IS' },
+  { tag: '00180087', keyword: 'MagneticFieldStrength', vr: 'DS' },
+  { tag: '00180088', keyword: 'SpacingBetweenSlices', vr: 'DS' },
+  { tag: '00180089', keyword: 'NumberOfPhaseEncodingSteps', vr: 'IS' },
+  { tag: '00180090', keyword: 'DataCollectionDiameter', vr: 'DS' },
+  { tag: '00180091', keyword: 'EchoTrainLength', vr: 'IS' },
+  { tag: '00180093', keyword: 'PercentSampling', vr: 'DS' },
+  { tag: '00180094', keyword: 'PercentPhaseFieldOfView', vr: 'DS' },
+  { tag: '00180095', keyword: 'PixelBandwidth', vr: 'DS' },
+  { tag: '00181020', keyword: 'SoftwareVersions', vr: 'LO' },
+  { tag: '00181088', keyword: 'HeartRate', vr: 'IS' },
+  { tag: '00181100', keyword: 'ReconstructionDiameter', vr: 'DS' },
+  { tag: '00181110', keyword: 'DistanceSourceToDetector', vr: 'DS' },
+  { tag: '00181111', keyword: 'DistanceSourceToPatient', vr: 'DS' },
+  { tag: '00181120', keyword: 'GantryDetectorTilt', vr: 'DS' },
+  { tag: '00181130', keyword: 'TableHeight', vr: 'DS' },
+  { tag: '00181140', keyword: 'RotationDirection', vr: 'CS' },
+  { tag: '00181150', keyword: 'ExposureTime', vr: 'IS' },
+  { tag: '00181151', keyword: 'XRayTubeCurrent', vr: 'IS' },
+  { tag: '00181152', keyword: 'Exposure', vr: 'IS' },
+  { tag: '00181160', keyword: 'FilterType', vr: 'SH' },
+  { tag: '00181170', keyword: 'GeneratorPower', vr: 'IS' },
+  { tag: '00181190', keyword: 'FocalSpots', vr: 'DS' },
+  { tag: '00181210', keyword: 'ConvolutionKernel', vr: 'SH' },
+  { tag: '00181250', keyword: 'ReceiveCoilName', vr: 'SH' },
+  { tag: '00181251', keyword: 'TransmitCoilName', vr: 'SH' },
+  { tag: '00181310', keyword: 'AcquisitionMatrix', vr: 'US' },
+  { tag: '00181312', keyword: 'InPlanePhaseEncodingDirection', vr: 'CS' },
+  { tag: '00181314', keyword: 'FlipAngle', vr: 'DS' },
+  { tag: '00181315', keyword: 'VariableFlipAngleFlag', vr: 'CS' },
+  { tag: '00181316', keyword: 'SAR', vr: 'DS' },
+  { tag: '00181318', keyword: 'dBdt', vr: 'DS' },
+  { tag: '00185100', keyword: 'PatientPosition', vr: 'CS' },
+  { tag: '00200011', keyword: 'SeriesNumber', vr: 'IS' },
+  { tag: '00200012', keyword: 'AcquisitionNumber', vr: 'IS' },
+  { tag: '00200013', keyword: 'InstanceNumber', vr: 'IS' },
+  { tag: '00200020', keyword: 'PatientOrientation', vr: 'CS' },
+  { tag: '00200032', keyword: 'ImagePositionPatient', vr: 'DS' },
+  { tag: '00200037', keyword: 'ImageOrientationPatient', vr: 'DS' },
+  { tag: '00200060', keyword: 'Laterality', vr: 'CS' },
+  { tag: '00200100', keyword: 'TemporalPositionIdentifier', vr: 'IS' },
+  { tag: '00201002', keyword: 'ImagesInAcquisition', vr: 'IS' },
+  { tag: '00201040', keyword: 'PositionReferenceIndicator', vr: 'LO' },
+  { tag: '00201041', keyword: 'SliceLocation', vr: 'DS' },
+  { tag: '00280002', keyword: 'SamplesPerPixel', vr: 'US' },
+  { tag: '00280004', keyword: 'PhotometricInterpretation', vr: 'CS' },
+  { tag: '00280006', keyword: 'PlanarConfiguration', vr: 'US' },
+  { tag: '00280008', keyword: 'NumberOfFrames', vr: 'IS' },
+  { tag: '00280010', keyword: 'Rows', vr: 'US' },
+  { tag: '00280011', keyword: 'Columns', vr: 'US' },
+  { tag: '00280030', keyword: 'PixelSpacing', vr: 'DS' },
+  { tag: '00280034', keyword: 'PixelAspectRatio', vr: 'IS' },
+  { tag: '00280100', keyword: 'BitsAllocated', vr: 'US' },
+  { tag: '00280101', keyword: 'BitsStored', vr: 'US' },
+  { tag: '00280102', keyword: 'HighBit', vr: 'US' },
+  { tag: '00280103', keyword: 'PixelRepresentation', vr: 'US' },
+  { tag: '00280106', keyword: 'SmallestImagePixelValue', vr: 'US' },
+  { tag: '00280107', keyword: 'LargestImagePixelValue', vr: 'US' },
+  { tag: '00280120', keyword: 'PixelPaddingValue', vr: 'US' },
+  { tag: '00280301', keyword: 'BurnedInAnnotation', vr: 'CS' },
+  { tag: '00281050', keyword: 'WindowCenter', vr: 'DS' },
+  { tag: '00281051', keyword: 'WindowWidth', vr: 'DS' },
+  { tag: '00281052', keyword: 'RescaleIntercept', vr: 'DS' },
+  { tag: '00281053', keyword: 'RescaleSlope', vr: 'DS' },
+  { tag: '00281054', keyword: 'RescaleType', vr: 'LO' },
+  { tag: '00281055', keyword: 'WindowCenterWidthExplanation', vr: 'LO' },
+  { tag: '00282110', keyword: 'LossyImageCompression', vr: 'CS' },
+  { tag: '00282112', keyword: 'LossyImageCompressionRatio', vr: 'DS' },
+  { tag: '00282114', keyword: 'LossyImageCompressionMethod', vr: 'CS' },
+  { tag: '00540220', keyword: 'ViewCodeSequence', vr: 'SQ' },
+  { tag: '7FE00010', keyword: 'PixelData', vr: 'OW' },
+];
+
+const dictionary = new Map(standardAttributes.map((attribute) => [attribute.tag, attribute]));
+
+/** The dictionary entry for `tag`; group lengths (`gggg0000`) are all `UL`. */
+export const lookupAttribute = (tag: string): DictionaryAttribute | undefined =>
+  dictionary.get(tag) ?? (tag.endsWith('0000') ? { tag, keyword: 'GroupLength', vr: 'UL' } : undefined);
@@ -0,0 +1,12 @@
+export const DICOM_MIME_TYPE = 'application/dicom';
+
+const PREAMBLE_LENGTH = 128;
+
+/** Part 10 files carry "DICM" right after a 128-byte preamble. */
+export const hasDicomPreamble = (bytes: Uint8Array) =>
+  bytes.length > PREAMBLE_LENGTH + 4 &&
+  String.fromCharCode(...bytes.subarray(PREAMBLE_LENGTH, PREAMBLE_LENGTH + 4)) === 'DICM';
+
+/** Scanner exports often have no MIME type, so the extension is all there is to go on. */
+export const isDicomFile = (file: { name?: string; type: string }) =>
+  file.type === DICOM_MIME_TYPE || /\.(dcm|dicom)$/i.test(file.name ?? '');
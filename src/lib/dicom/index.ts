@@ -0,0 +1,34 @@
+import { decodeDicomFrame } from './decode';
+import { parseDicomFile, type DicomMetadata, type DicomWindow } from './parse';
+import { applyWindow, defaultWindow } from './window';
+
+export { basicProfileAttributes, formatTag, parseTag } from './confidentiality-profile';
+export { decodeDicomFrame } from './decode';
+export { deidentifyDicom } from './deidentify';
+export { DICOM_MIME_TYPE, hasDicomPreamble, isDicomFile } from './file-type';
+export { DicomError, parseDicomFile } from './parse';
+export { describeTransferSyntax } from './transfer-syntax';
+export { applyWindow, defaultWindow } from './window';
+export type { ProfileAction, ProfileAttribute } from './confidentiality-profile';
+export type { DicomFrame } from './decode';
+export type { DeidentificationOptions, DeidentifiedDicom, TagChange, TagChangeKind } from './deidentify';
+export type { DicomMetadata, DicomWindow, ParsedDicom } from './parse';
+
+export interface DicomImage {
+  metadata: DicomMetadata;
+  /** The window the pixels were rendered with. */
+  window: DicomWindow;
+  width: number;
+  height: number;
+  /** 8-bit RGBA, ready for `ImageData`. */
+  pixels: Uint8ClampedArray;
+}
+
+/** Parses `bytes` and renders the first frame with the default window. */
+export const readDicomImage = async (bytes: Uint8Array): Promise<DicomImage> => {
+  const parsed = await parseDicomFile(bytes);
+  const frame = await decodeDicomFrame(parsed);
+  const window = defaultWindow(parsed.metadata, frame);
+  const pixels = applyWindow(frame, window, parsed.metadata.photometricInterpretation === 'MONOCHROME1');
+  return { metadata: parsed.metadata, window, width: frame.width, height: frame.height, pixels };
+};
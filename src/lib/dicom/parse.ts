@@ -0,0 +1,149 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet } from 'dicom-parser';
+import { hasDicomPreamble } from './file-type';
+import { DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN, IMPLICIT_VR_LITTLE_ENDIAN, describeTransferSyntax } from './transfer-syntax';
+
+export class DicomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DicomError';
+  }
+}
+
+export interface DicomWindow {
+  center: number;
+  width: number;
+}
+
+/** Header fields needed to decode and describe an image. Plain data, so it can cross a worker boundary. */
+export interface DicomMetadata {
+  transferSyntaxUid: string;
+  transferSyntax: string;
+  patientName?: string;
+  patientId?: string;
+  studyDate?: string;
+  studyDescription?: string;
+  seriesDescription?: string;
+  seriesInstanceUid?: string;
+  /** Position of the image within its series. */
+  instanceNumber?: number;
+  /** Position of the slice along the scanner axis, in mm. */
+  sliceLocation?: number;
+  modality?: string;
+  manufacturer?: string;
+  manufacturerModelName?: string;
+  rows: number;
+  columns: number;
+  numberOfFrames: number;
+  samplesPerPixel: number;
+  photometricInterpretation: string;
+  planarConfiguration: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  /** 0 for unsigned and 1 for two's complement samples. */
+  pixelRepresentation: number;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  /** Row and column spacing in mm. */
+  pixelSpacing?: [number, number];
+  sliceThickness?: number;
+  /** The first VOI window in the header, if any. */
+  window?: DicomWindow;
+}
+
+export interface ParsedDicom {
+  dataSet: DataSet;
+  metadata: DicomMetadata;
+  littleEndian: boolean;
+}
+
+const inflateRaw = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// dicom-parser only inflates synchronously, through a callback that must
+// return the inflated data set, so it is inflated up front.
+const inflateDataSet = async (bytes: Uint8Array) => {
+  const meta = dicomParser.readPart10Header(bytes);
+  const position = Math.max(...Object.values(meta.elements).map((element) => element.dataOffset + element.length));
+  return inflateRaw(bytes.subarray(position));
+};
+
+const optionalString = (dataSet: DataSet, tag: string) => dataSet.string(tag)?.trim() || undefined;
+
+const readMetadata = (dataSet: DataSet, transferSyntaxUid: string): DicomMetadata => {
+  const rows = dataSet.uint16('x00280010');
+  const columns = dataSet.uint16('x00280011');
+  if (!rows || !columns) {
+    throw new DicomError('The DICOM file has no image dimensions');
+  }
+
+  const rowSpacing = dataSet.floatString('x00280030', 0);
+  const columnSpacing = dataSet.floatString('x00280030', 1);
+  const windowCenter = dataSet.floatString('x00281050', 0);
+  const windowWidth = dataSet.floatString('x00281051', 0);
+
+  return {
+    transferSyntaxUid,
+    transferSyntax: describeTransferSyntax(transferSyntaxUid).name,
+    patientName: optionalString(dataSet, 'x00100010')?.replace(/\^/g, ' '),
+    patientId: optionalString(dataSet, 'x00100020'),
+    studyDate: optionalString(dataSet, 'x00080020'),
+    studyDescription: optionalString(dataSet, 'x00081030'),
+    seriesDescription: optionalString(dataSet, 'x0008103e'),
+    seriesInstanceUid: optionalString(dataSet, 'x0020000e'),
+    instanceNumber: dataSet.intString('x00200013'),
+    sliceLocation: dataSet.floatString('x00201041'),
+    modality: optionalString(dataSet, 'x00080060'),
+    manufacturer: optionalString(dataSet, 'x00080070'),
+    manufacturerModelName: optionalString(dataSet, 'x00081090'),
+    rows,
+    columns,
+    numberOfFrames: dataSet.intString('x00280008') ?? 1,
+    samplesPerPixel: dataSet.uint16('x00280002') ?? 1,
+    photometricInterpretation: optionalString(dataSet, 'x00280004') ?? 'MONOCHROME2',
+    planarConfiguration: dataSet.uint16('x00280006') ?? 0,
+    bitsAllocated: dataSet.uint16('x00280100') ?? 16,
+    bitsStored: dataSet.uint16('x00280101') ?? dataSet.uint16('x00280100') ?? 16,
+    pixelRepresentation: dataSet.uint16('x00280103') ?? 0,
+    rescaleSlope: dataSet.floatString('x00281053') ?? 1,
+    rescaleIntercept: dataSet.floatString('x00281052') ?? 0,
+    pixelSpacing: rowSpacing != null && columnSpacing != null ? [rowSpacing, columnSpacing] : undefined,
+    sliceThickness: dataSet.floatString('x00180050'),
+    window: windowCenter != null && windowWidth > 0 ? { center: windowCenter, width: windowWidth } : undefined,
+  };
+};
+
+// dicom-parser throws strings, or `{ exception, dataSet }` for data set errors
+const parserErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && 'exception' in error) return parserErrorMessage(error.exception);
+  return 'unknown error';
+};
+
+/** Parses a DICOM file, including deflated ones and raw data sets without a Part 10 preamble. */
+export const parseDicomFile = async (bytes: Uint8Array): Promise<ParsedDicom> => {
+  // Raw data sets without a preamble are implicit VR little endian
+  const fallbackSyntax = hasDicomPreamble(bytes) ? undefined : IMPLICIT_VR_LITTLE_ENDIAN;
+
+  try {
+    const transferSyntaxUid =
+      fallbackSyntax ?? dicomParser.readPart10Header(bytes).string('x00020010')?.trim() ?? IMPLICIT_VR_LITTLE_ENDIAN;
+    const inflated = transferSyntaxUid === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN ? await inflateDataSet(bytes) : null;
+    const dataSet = dicomParser.parseDicom(bytes, {
+      TransferSyntaxUID: fallbackSyntax,
+      inflater: inflated ? () => inflated : undefined,
+    });
+
+    return {
+      dataSet,
+      metadata: readMetadata(dataSet, transferSyntaxUid),
+      littleEndian: describeTransferSyntax(transferSyntaxUid).littleEndian,
+    };
+  } catch (error) {
+    if (error instanceof DicomError) throw error;
+    throw new DicomError(`The DICOM header could not be parsed: ${parserErrorMessage(error)}`);
+  }
+};
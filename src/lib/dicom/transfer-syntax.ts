@@ -0,0 +1,30 @@
+export type PixelEncoding = 'native' | 'deflate' | 'rle' | 'jpeg-baseline' | 'jpeg-lossless';
+
+interface TransferSyntax {
+  name: string;
+  /** How the pixel data is stored, or `null` if this browser build cannot decode it. */
+  encoding: PixelEncoding | null;
+  littleEndian: boolean;
+}
+
+export const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+export const DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1.99';
+
+const transferSyntaxes: Record<string, TransferSyntax> = {
+  [IMPLICIT_VR_LITTLE_ENDIAN]: { name: 'Implicit VR Little Endian', encoding: 'native', littleEndian: true },
+  '1.2.840.10008.1.2.1': { name: 'Explicit VR Little Endian', encoding: 'native', littleEndian: true },
+  '1.2.840.10008.1.2.2': { name: 'Explicit VR Big Endian', encoding: 'native', littleEndian: false },
+  [DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN]: { name: 'Deflated Explicit VR Little Endian', encoding: 'deflate', littleEndian: true },
+  '1.2.840.10008.1.2.5': { name: 'RLE Lossless', encoding: 'rle', littleEndian: true },
+  '1.2.840.10008.1.2.4.50': { name: 'JPEG Baseline (8-bit)', encoding: 'jpeg-baseline', littleEndian: true },
+  '1.2.840.10008.1.2.4.57': { name: 'JPEG Lossless', encoding: 'jpeg-lossless', littleEndian: true },
+  '1.2.840.10008.1.2.4.70': { name: 'JPEG Lossless, First-Order Prediction', encoding: 'jpeg-lossless', littleEndian: true },
+  '1.2.840.10008.1.2.4.51': { name: 'JPEG Extended (12-bit)', encoding: null, littleEndian: true },
+  '1.2.840.10008.1.2.4.80': { name: 'JPEG-LS Lossless', encoding: null, littleEndian: true },
+  '1.2.840.10008.1.2.4.81': { name: 'JPEG-LS Near-Lossless', encoding: null, littleEndian: true },
+  '1.2.840.10008.1.2.4.90': { name: 'JPEG 2000 (Lossless)', encoding: null, littleEndian: true },
+  '1.2.840.10008.1.2.4.91': { name: 'JPEG 2000', encoding: null, littleEndian: true },
+};
+
+export const describeTransferSyntax = (uid: string): TransferSyntax =>
+  transferSyntaxes[uid] ?? { name: `Unknown (${uid})`, encoding: null, littleEndian: true };
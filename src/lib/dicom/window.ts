@@ -0,0 +1,54 @@
+import type { DicomFrame } from './decode';
+import type { DicomMetadata, DicomWindow } from './parse';
+
+/** The header's window if it has one, otherwise the full range of the frame. */
+export const defaultWindow = (metadata: DicomMetadata, frame: DicomFrame): DicomWindow => {
+  if (metadata.window) {
+    return metadata.window;
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of frame.data) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { center: (min + max) / 2, width: Math.max(1, max - min) };
+};
+
+/**
+ * Maps a frame to 8-bit RGBA with the linear VOI function from PS3.3
+ * C.11.2.1.2. MONOCHROME1 images are inverted so that they display like
+ * MONOCHROME2 ones; colour images are copied as they are.
+ */
+export const applyWindow = (frame: DicomFrame, { center, width }: DicomWindow, invert = false) => {
+  const pixelCount = frame.width * frame.height;
+  const rgba = new Uint8ClampedArray(pixelCount * 4);
+
+  if (frame.samplesPerPixel === 3) {
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      rgba[pixel * 4] = frame.data[pixel * 3];
+      rgba[pixel * 4 + 1] = frame.data[pixel * 3 + 1];
+      rgba[pixel * 4 + 2] = frame.data[pixel * 3 + 2];
+      rgba[pixel * 4 + 3] = 255;
+    }
+    return rgba;
+  }
+
+  const lower = center - 0.5 - (width - 1) / 2;
+  const upper = center - 0.5 + (width - 1) / 2;
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const value = frame.data[pixel];
+    let level: number;
+    if (value <= lower) level = 0;
+    else if (value > upper) level = 255;
+    else level = ((value - (center - 0.5)) / (width - 1) + 0.5) * 255;
+    if (invert) level = 255 - level;
+
+    rgba[pixel * 4] = level;
+    rgba[pixel * 4 + 1] = level;
+    rgba[pixel * 4 + 2] = level;
+    rgba[pixel * 4 + 3] = 255;
+  }
+  return rgba;
+};
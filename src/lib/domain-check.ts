@@ -0,0 +1,154 @@
+import type { DomainDistance } from '@/lib/inference';
+import { CHROMA_THRESHOLD, percent, toGray } from '@/lib/image-quality';
+
+export type DomainHeuristicId = 'grayscale' | 'radial' | 'background';
+
+/** One client-side clue about whether an image is a brain MRI. Plain data, so it can cross a worker boundary. */
+export interface DomainHeuristic {
+  id: DomainHeuristicId;
+  label: string;
+  inDomain: boolean;
+  explanation: string;
+}
+
+export interface DomainAssessment {
+  heuristics: DomainHeuristic[];
+  /** From the inference provider's embedding check, when it serves one. */
+  embedding: DomainDistance | null;
+  /** The prediction is not shown as one when this is set. */
+  outOfDomain: boolean;
+}
+
+const MIN_GRAY_PIXELS = 0.95;
+const BACKGROUND_LEVEL = 20;
+const MIN_BACKGROUND = 0.1;
+const MAX_BACKGROUND = 0.9;
+// How far the centre of brightness may sit from the middle, as a fraction of the shorter side
+const MAX_CENTROID_OFFSET = 0.2;
+const MIN_RADIAL_CONTRAST = 0.3;
+// It takes this many heuristics to flag an image on their own
+const FLAGGING_HEURISTICS = 2;
+
+const checkGrayscale = ({ data }: ImageData): DomainHeuristic => {
+  let gray = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    if (Math.max(r, g, b) - Math.min(r, g, b) <= CHROMA_THRESHOLD) gray++;
+  }
+  const fraction = gray / (data.length / 4);
+  return {
+    id: 'grayscale',
+    label: 'Grayscale',
+    inDomain: fraction >= MIN_GRAY_PIXELS,
+    explanation: `${percent(fraction)} of the pixels are gray; an MRI has no colour.`,
+  };
+};
+
+// A slice is a bright head in the middle of the frame, fading to dark
+// towards the edges: the brightness is centred, and the middle outshines the border
+const checkRadialStructure = (gray: Uint8ClampedArray, width: number, height: number): DomainHeuristic => {
+  const side = Math.min(width, height);
+  const [cx, cy] = [width / 2, height / 2];
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  const centre = { sum: 0, count: 0 };
+  const border = { sum: 0, count: 0 };
+  const margin = side * 0.1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x];
+      total += value;
+      sumX += value * x;
+      sumY += value * y;
+      if (Math.hypot(x - cx, y - cy) < side * 0.3) {
+        centre.sum += value;
+        centre.count++;
+      } else if (x < margin || y < margin || x >= width - margin || y >= height - margin) {
+        border.sum += value;
+        border.count++;
+      }
+    }
+  }
+
+  const offset = total > 0 ? Math.hypot(sumX / total - cx, sumY / total - cy) / side : 1;
+  const centreMean = centre.count > 0 ? centre.sum / centre.count : 0;
+  const borderMean = border.count > 0 ? border.sum / border.count : 0;
+  const contrast = (centreMean - borderMean) / (centreMean + borderMean + 1);
+  const inDomain = offset <= MAX_CENTROID_OFFSET && contrast >= MIN_RADIAL_CONTRAST;
+  return {
+    id: 'radial',
+    label: 'Radial structure',
+    inDomain,
+    explanation: inDomain
+      ? `The brightness is centred and fades towards the border (contrast ${contrast.toFixed(2)}).`
+      : offset > MAX_CENTROID_OFFSET
+        ? `The brightness is off-centre by ${percent(offset)} of the frame; a head is in the middle of a slice.`
+        : `The middle is hardly brighter than the border (contrast ${contrast.toFixed(2)}); a slice fades to dark towards its edges.`,
+  };
+};
+
+const checkBackground = (gray: Uint8ClampedArray): DomainHeuristic => {
+  let dark = 0;
+  for (const value of gray) {
+    if (value < BACKGROUND_LEVEL) dark++;
+  }
+  const fraction = dark / gray.length;
+  return {
+    id: 'background',
+    label: 'Background',
+    inDomain: fraction >= MIN_BACKGROUND && fraction <= MAX_BACKGROUND,
+    explanation:
+      fraction < MIN_BACKGROUND
+        ? `Only ${percent(fraction)} of the image is black; an MRI slice is surrounded by dark background.`
+        : fraction > MAX_BACKGROUND
+          ? `${percent(fraction)} of the image is black, leaving too little to be a head.`
+          : `${percent(fraction)} of the image is dark background.`,
+  };
+};
+
+/** The client-side clues, computed on the pixels the model would receive. */
+export const assessDomainHeuristics = (image: ImageData): DomainHeuristic[] => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  return [checkGrayscale(image), checkRadialStructure(gray, width, height), checkBackground(gray)];
+};
+
+/**
+ * Flags an image when the embedding check puts it too far from the training
+ * data, or when enough heuristics agree that it is not a brain MRI.
+ */
+export const assessDomain = (heuristics: DomainHeuristic[], embedding: DomainDistance | null): DomainAssessment => {
+  const failed = heuristics.filter((heuristic) => !heuristic.inDomain).length;
+  return {
+    heuristics,
+    embedding,
+    outOfDomain: (embedding !== null && embedding.distance > embedding.maxDistance) || failed >= FLAGGING_HEURISTICS,
+  };
+};
+
+/**
+ * Flags an input of several images, a series or a study, as soon as one of
+ * them is flagged. Only the flagged images' failed heuristics are kept, each
+ * named after its image, with the embedding that lies farthest out.
+ */
+export const combineDomainAssessments = (images: { label: string; domain: DomainAssessment }[]): DomainAssessment => {
+  const flagged = images.filter(({ domain }) => domain.outOfDomain);
+  const embeddings = images.map(({ domain }) => domain.embedding).filter((embedding) => embedding !== null);
+  return {
+    heuristics: flagged.flatMap(({ label, domain }) =>
+      domain.heuristics
+        .filter((heuristic) => !heuristic.inDomain)
+        .map((heuristic) => ({ ...heuristic, explanation: `${label}: ${heuristic.explanation}` }))
+    ),
+    embedding: embeddings.reduce<DomainDistance | null>(
+      (farthest, embedding) =>
+        !farthest || embedding.distance / embedding.maxDistance > farthest.distance / farthest.maxDistance
+          ? embedding
+          : farthest,
+      null
+    ),
+    outOfDomain: flagged.length > 0,
+  };
+};
@@ -0,0 +1,230 @@
+export type ImageMetadataKind = 'EXIF' | 'XMP' | 'IPTC' | 'ICC profile' | 'Comment' | 'Text' | 'Timestamp' | 'Other';
+
+/** A block of metadata found in an image file. Plain data, so it can cross a worker boundary. */
+export interface ImageMetadataEntry {
+  kind: ImageMetadataKind;
+  /** Where it was found: a JPEG marker segment, a PNG chunk or a WebP chunk. */
+  container: string;
+  /** What it held, as far as it can be read, e.g. `Model: Pixel 7`. */
+  fields: string[];
+  /** Size in bytes. */
+  size: number;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const truncate = (value: string) =>
+  value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const startsWith = (bytes: Uint8Array, signature: string) =>
+  bytes.length >= signature.length && latin1.decode(bytes.subarray(0, signature.length)) === signature;
+
+const exifTagNames: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0xa420: 'ImageUniqueID',
+  0xa430: 'CameraOwnerName',
+  0xa431: 'BodySerialNumber',
+  0xa434: 'LensModel',
+  0xa435: 'LensSerialNumber',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const ASCII = 2;
+
+/**
+ * The text tags of a TIFF structure (the payload of an EXIF block) that can
+ * identify a person or a device, plus whether it holds a GPS position.
+ */
+const readExifFields = (tiff: Uint8Array) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = startsWith(tiff, 'II');
+  const fields: string[] = [];
+  let otherTags = 0;
+
+  const readIfd = (offset: number) => {
+    const count = view.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const length = view.getUint32(entry + 4, little);
+      const value = view.getUint32(entry + 8, little);
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(value);
+      } else if (tag === GPS_IFD_POINTER) {
+        fields.push(`GPS position (${view.getUint16(value, little)} tags)`);
+      } else if (exifTagNames[tag] && type === ASCII) {
+        const start = length <= 4 ? entry + 8 : value;
+        const text = latin1.decode(tiff.subarray(start, start + length)).replace(/\0+$/, '').trim();
+        if (text) fields.push(`${exifTagNames[tag]}: ${truncate(text)}`);
+      } else {
+        otherTags++;
+      }
+    }
+  };
+
+  try {
+    readIfd(view.getUint32(4, little));
+  } catch {
+    fields.push('Partly unreadable');
+  }
+  if (otherTags > 0) fields.push(`${otherTags} other tag${otherTags === 1 ? '' : 's'}`);
+  return fields;
+};
+
+// The segments between SOI and the first scan
+const findJpegMetadata = (bytes: Uint8Array, entries: ImageMetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Fill bytes, and markers that carry no length
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    // Start of scan: entropy-coded data follows, with no metadata after it
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const size = view.getUint16(offset + 2);
+    const data = bytes.subarray(offset + 4, offset + 2 + size);
+    const container = marker === 0xfe ? 'COM' : `APP${marker - 0xe0}`;
+
+    if (marker === 0xfe) {
+      entries.push({ kind: 'Comment', container, fields: [truncate(latin1.decode(data))], size });
+    } else if (marker >= 0xe0 && marker <= 0xef) {
+      if (startsWith(data, 'Exif\0\0')) {
+        entries.push({ kind: 'EXIF', container, fields: readExifFields(data.subarray(6)), size });
+      } else if (startsWith(data, 'http://ns.adobe.com/xap/1.0/\0')) {
+        entries.push({ kind: 'XMP', container, fields: [], size });
+      } else if (startsWith(data, 'ICC_PROFILE\0')) {
+        entries.push({ kind: 'ICC profile', container, fields: [], size });
+      } else if (startsWith(data, 'Photoshop 3.0\0')) {
+        entries.push({ kind: 'IPTC', container, fields: [], size });
+      } else {
+        const end = data.indexOf(0);
+        const signature = end > 0 ? latin1.decode(data.subarray(0, end)).trim() : '';
+        entries.push({ kind: 'Other', container, fields: signature ? [truncate(signature)] : [], size });
+      }
+    }
+    offset += 2 + size;
+  }
+};
+
+// Critical chunks, and tRNS which is part of the pixels
+const PNG_IMAGE_CHUNKS = new Set(['IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS']);
+
+const findPngMetadata = (bytes: Uint8Array, entries: ImageMetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    offset += 12 + size;
+    if (PNG_IMAGE_CHUNKS.has(type)) continue;
+
+    const keyword = latin1.decode(data.subarray(0, Math.max(0, data.indexOf(0))));
+    switch (type) {
+      case 'tEXt':
+        entries.push({
+          kind: 'Text',
+          container: type,
+          fields: [`${keyword}: ${truncate(latin1.decode(data.subarray(keyword.length + 1)))}`],
+          size,
+        });
+        break;
+      case 'zTXt':
+        entries.push({ kind: 'Text', container: type, fields: [`${keyword} (compressed)`], size });
+        break;
+      case 'iTXt': {
+        if (keyword === 'XML:com.adobe.xmp') {
+          entries.push({ kind: 'XMP', container: type, fields: [], size });
+          break;
+        }
+        // Keyword, compression flag and method, language tag, translated keyword, text
+        const compressed = data[keyword.length + 1] === 1;
+        const language = data.indexOf(0, keyword.length + 3);
+        const translated = data.indexOf(0, language + 1);
+        const text = compressed ? '(compressed)' : truncate(utf8.decode(data.subarray(translated + 1)));
+        entries.push({ kind: 'Text', container: type, fields: [`${keyword}: ${text}`], size });
+        break;
+      }
+      case 'eXIf':
+        entries.push({ kind: 'EXIF', container: type, fields: readExifFields(data), size });
+        break;
+      case 'iCCP':
+        entries.push({ kind: 'ICC profile', container: type, fields: keyword ? [keyword] : [], size });
+        break;
+      case 'tIME': {
+        const [month, day, hour, minute, second] = Array.from(data.subarray(2, 7), pad);
+        const date = `${(data[0] << 8) | data[1]}-${month}-${day} ${hour}:${minute}:${second}`;
+        entries.push({ kind: 'Timestamp', container: type, fields: [date], size });
+        break;
+      }
+      default:
+        entries.push({ kind: 'Other', container: type, fields: [], size });
+    }
+  }
+};
+
+const findWebpMetadata = (bytes: Uint8Array, entries: ImageMetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = latin1.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+
+    if (type === 'EXIF') {
+      // Some encoders keep the JPEG signature in front of the TIFF header
+      const tiff = startsWith(data, 'Exif\0\0') ? data.subarray(6) : data;
+      entries.push({ kind: 'EXIF', container: type, fields: readExifFields(tiff), size });
+    } else if (type === 'XMP ') {
+      entries.push({ kind: 'XMP', container: type.trim(), fields: [], size });
+    } else if (type === 'ICCP') {
+      entries.push({ kind: 'ICC profile', container: type, fields: [], size });
+    }
+  }
+};
+
+/**
+ * Lists the metadata a JPEG, PNG or WebP file carries besides its pixels.
+ * Other formats report none; a damaged file reports what was read before
+ * the damage.
+ */
+export const findImageMetadata = (bytes: Uint8Array): ImageMetadataEntry[] => {
+  const entries: ImageMetadataEntry[] = [];
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      findJpegMetadata(bytes, entries);
+    } else if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) {
+      findPngMetadata(bytes, entries);
+    } else if (startsWith(bytes, 'RIFF') && latin1.decode(bytes.subarray(8, 12)) === 'WEBP') {
+      findWebpMetadata(bytes, entries);
+    }
+  } catch {
+    // A truncated file still decodes in most browsers, and is re-encoded all the same
+  }
+  return entries;
+};
@@ -0,0 +1,51 @@
+import type { DeidentificationOptions, DicomMetadata, DicomWindow, TagChange } from '@/lib/dicom';
+import type { DomainHeuristic } from '@/lib/domain-check';
+import type { ImageMetadataEntry } from '@/lib/image-metadata';
+import type { QualityCheck } from '@/lib/image-quality';
+import type { PreprocessingPipeline, PreprocessingRecord } from '@/lib/preprocessing';
+import type { RedactionRegion } from '@/lib/redaction';
+import type { DisplaySettings } from '@/lib/viewer';
+
+export type ImagePipelineStage = 'decoding' | 'quality' | 'hashing' | 'preview' | 'payload';
+
+export type ImagePipelineRequest = {
+  id: number;
+  file: Blob;
+  /** Used to recognise DICOM data sets that lack a Part 10 preamble. */
+  fileName: string;
+  previewMaxSize: number;
+  /** Applied to DICOM headers before anything is read from them; `null` leaves them as they are. */
+  deidentification: DeidentificationOptions | null;
+  /** Blacked out before the preview and payload are rendered. */
+  redaction: RedactionRegion[];
+  /** Crop and padding, applied after redaction; `null` leaves the image whole. */
+  preprocessing: PreprocessingPipeline | null;
+  /** Baked into the payload, when the user asked for the image to be analyzed as displayed. */
+  display: DisplaySettings | null;
+};
+
+export type DicomInfo = {
+  metadata: DicomMetadata;
+  /** The window the preview and payload were rendered with. */
+  window: DicomWindow;
+  /** What de-identification changed in the header, when it was applied. */
+  deidentification: TagChange[] | null;
+};
+
+export type ImagePipelineResponse =
+  | { type: 'progress'; id: number; stage: ImagePipelineStage }
+  | {
+      type: 'result';
+      id: number;
+      hash: string;
+      width: number;
+      height: number;
+      preview: Blob;
+      payload: Blob;
+      dicom: DicomInfo | null;
+      strippedMetadata: ImageMetadataEntry[] | null;
+      quality: QualityCheck[];
+      domain: DomainHeuristic[];
+      preprocessing: PreprocessingRecord | null;
+    }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,162 @@
+import { createAbortError } from '@/lib/inference';
+import type { DeidentificationOptions } from '@/lib/dicom';
+import type { DomainHeuristic } from '@/lib/domain-check';
+import type { ImageMetadataEntry } from '@/lib/image-metadata';
+import type { QualityCheck } from '@/lib/image-quality';
+import type { PreprocessingPipeline, PreprocessingRecord } from '@/lib/preprocessing';
+import type { RedactionRegion } from '@/lib/redaction';
+import type { DisplaySettings } from '@/lib/viewer';
+import type { DicomInfo, ImagePipelineRequest, ImagePipelineResponse, ImagePipelineStage } from './image-pipeline-protocol';
+
+export type { DicomInfo, ImagePipelineStage } from './image-pipeline-protocol';
+
+const PREVIEW_MAX_SIZE = 768;
+
+export const imagePipelineStages: ImagePipelineStage[] = ['decoding', 'quality', 'hashing', 'preview', 'payload'];
+
+export interface ProcessedImage {
+  /** Hex SHA-256 of the original file bytes, salted with the redaction, preprocessing and display settings applied. */
+  hash: string;
+  width: number;
+  height: number;
+  /** Object URL of the downscaled preview; release with `releaseProcessedImage`. */
+  previewUrl: string;
+  /** What gets sent to the model: a PNG re-encoded from the decoded pixels. */
+  payload: Blob;
+  /** Header and display window, when the upload was a DICOM file. */
+  dicom: DicomInfo | null;
+  /** Metadata the original file held and the payload does not, for raster images. */
+  strippedMetadata: ImageMetadataEntry[] | null;
+  /** The regions blacked out in the preview and payload. */
+  redaction: RedactionRegion[];
+  /** The crop and padding applied, with the sizes they were applied at. */
+  preprocessing: PreprocessingRecord | null;
+  /** The display settings baked into the preview and payload, if any. */
+  display: DisplaySettings | null;
+  /** Quality checks of the payload's pixels. */
+  quality: QualityCheck[];
+  /** Client-side clues to whether the image is a brain MRI at all. */
+  domain: DomainHeuristic[];
+}
+
+export class ImagePipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagePipelineError';
+  }
+}
+
+interface PendingJob {
+  resolve: (image: ProcessedImage) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: ImagePipelineStage) => void;
+  redaction: RedactionRegion[];
+  display: DisplaySettings | null;
+}
+
+const pending = new Map<number, PendingJob>();
+let worker: Worker | null = null;
+let nextId = 0;
+
+const getWorker = () => {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker(new URL('../workers/image-pipeline.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data: message }: MessageEvent<ImagePipelineResponse>) => {
+    const job = pending.get(message.id);
+    if (!job) return;
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.stage);
+      return;
+    }
+
+    pending.delete(message.id);
+    if (message.type === 'result') {
+      job.resolve({
+        hash: message.hash,
+        width: message.width,
+        height: message.height,
+        previewUrl: URL.createObjectURL(message.preview),
+        payload: message.payload,
+        dicom: message.dicom,
+        strippedMetadata: message.strippedMetadata,
+        quality: message.quality,
+        domain: message.domain,
+        redaction: job.redaction,
+        preprocessing: message.preprocessing,
+        display: job.display,
+      });
+    } else {
+      job.reject(new ImagePipelineError(`Could not read the image: ${message.message}`));
+    }
+  };
+  worker.onerror = (event) => {
+    pending.forEach(({ reject }) => reject(new ImagePipelineError(event.message || 'The image worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * Decodes, hashes and downscales `file` off the main thread and prepares the
+ * payload sent to the model. DICOM headers are de-identified when
+ * `deidentification` is given, and `redaction` regions are blacked out.
+ * `preprocessing` crops and pads the image after that, and `display`
+ * settings are only applied to the pixels when given.
+ */
+export const processImage = (
+  file: Blob,
+  {
+    signal,
+    onProgress,
+    deidentification = null,
+    redaction = [],
+    preprocessing = null,
+    display = null,
+  }: {
+    signal?: AbortSignal;
+    onProgress?: (stage: ImagePipelineStage) => void;
+    deidentification?: DeidentificationOptions | null;
+    redaction?: RedactionRegion[];
+    preprocessing?: PreprocessingPipeline | null;
+    display?: DisplaySettings | null;
+  } = {}
+) =>
+  new Promise<ProcessedImage>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const id = nextId++;
+    pending.set(id, {
+      // A result that arrives after cancellation is released straight away
+      resolve: (image) => (signal?.aborted ? releaseProcessedImage(image) : resolve(image)),
+      reject,
+      onProgress,
+      redaction,
+      display,
+    });
+    signal?.addEventListener('abort', () => reject(createAbortError()), { once: true });
+
+    const fileName = file instanceof File ? file.name : '';
+    const request: ImagePipelineRequest = {
+      id,
+      file,
+      fileName,
+      previewMaxSize: PREVIEW_MAX_SIZE,
+      deidentification,
+      redaction,
+      preprocessing,
+      display,
+    };
+    getWorker().postMessage(request);
+  });
+
+export const releaseProcessedImage = (image: ProcessedImage) => URL.revokeObjectURL(image.previewUrl);
@@ -0,0 +1,273 @@
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+export type QualityCheckId = 'resolution' | 'aspectRatio' | 'color' | 'blur' | 'exposure' | 'compression';
+
+/** The outcome of one check. Plain data, so it can cross a worker boundary. */
+export interface QualityCheck {
+  id: QualityCheckId;
+  label: string;
+  status: QualityStatus;
+  /** What was measured and what it suggests, e.g. `Laplacian variance 8.2; the image looks out of focus`. */
+  explanation: string;
+}
+
+/** The checks that would send the model an image it was not trained on. */
+export class ImageQualityError extends Error {
+  constructor(readonly checks: QualityCheck[]) {
+    super(`Failed checks: ${checks.map((check) => check.label).join(', ')}`);
+    this.name = 'ImageQualityError';
+  }
+}
+
+const MIN_SIDE = 128;
+const RECOMMENDED_SIDE = 224;
+const WARN_ASPECT_RATIO = 1.5;
+const MAX_ASPECT_RATIO = 3;
+/** A pixel whose channels differ by more than this is coloured, not gray. */
+export const CHROMA_THRESHOLD = 24;
+const WARN_COLORED = 0.01;
+const MAX_COLORED = 0.1;
+// Below this the pixel is background, which says nothing about focus or exposure
+const BACKGROUND_LEVEL = 10;
+const WARN_LAPLACIAN_VARIANCE = 50;
+const MIN_LAPLACIAN_VARIANCE = 15;
+const MIN_FOREGROUND = 0.05;
+const WARN_CLIPPED = 0.02;
+const MAX_CLIPPED = 0.1;
+const MIN_CONTRAST = 64;
+const WARN_BLOCKINESS = 1.3;
+const MAX_BLOCKINESS = 1.7;
+
+/** Formats a fraction for an explanation, e.g. `12.5%`. */
+export const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const worst = (statuses: QualityStatus[]): QualityStatus =>
+  statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+
+/** Rec. 601 luma of each pixel. */
+export const toGray = ({ data, width, height }: ImageData) => {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+const checkResolution = (width: number, height: number): QualityCheck => {
+  const side = Math.min(width, height);
+  const size = `${width} × ${height} px`;
+  if (side < MIN_SIDE) {
+    return {
+      id: 'resolution',
+      label: 'Resolution',
+      status: 'fail',
+      explanation: `${size}; a thumbnail this small has lost the detail the model looks for (at least ${MIN_SIDE} px a side).`,
+    };
+  }
+  if (side < RECOMMENDED_SIDE) {
+    return {
+      id: 'resolution',
+      label: 'Resolution',
+      status: 'warn',
+      explanation: `${size}; the model works best with at least ${RECOMMENDED_SIDE} px a side.`,
+    };
+  }
+  return { id: 'resolution', label: 'Resolution', status: 'pass', explanation: size };
+};
+
+const checkAspectRatio = (width: number, height: number): QualityCheck => {
+  const ratio = Math.max(width, height) / Math.min(width, height);
+  const described = `${ratio.toFixed(2)}:1`;
+  if (ratio > MAX_ASPECT_RATIO) {
+    return {
+      id: 'aspectRatio',
+      label: 'Aspect ratio',
+      status: 'fail',
+      explanation: `${described}; an MRI slice is close to square, so this looks like a screenshot or a strip of several slices.`,
+    };
+  }
+  if (ratio > WARN_ASPECT_RATIO) {
+    return {
+      id: 'aspectRatio',
+      label: 'Aspect ratio',
+      status: 'warn',
+      explanation: `${described}; the image will be squashed to a square, so crop it to the slice if you can.`,
+    };
+  }
+  return { id: 'aspectRatio', label: 'Aspect ratio', status: 'pass', explanation: described };
+};
+
+const checkColor = ({ data }: ImageData): QualityCheck => {
+  let colored = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    if (Math.max(r, g, b) - Math.min(r, g, b) > CHROMA_THRESHOLD) colored++;
+  }
+  const fraction = colored / (data.length / 4);
+  if (fraction >= MAX_COLORED) {
+    return {
+      id: 'color',
+      label: 'Grayscale',
+      status: 'fail',
+      explanation: `${percent(fraction)} of the pixels are coloured; MRI is grayscale, so this looks like a photo of a screen or a colour-mapped image.`,
+    };
+  }
+  if (fraction >= WARN_COLORED) {
+    return {
+      id: 'color',
+      label: 'Grayscale',
+      status: 'warn',
+      explanation: `${percent(fraction)} of the pixels are coloured, e.g. annotations or a colour cast.`,
+    };
+  }
+  return { id: 'color', label: 'Grayscale', status: 'pass', explanation: 'The image is grayscale.' };
+};
+
+// Variance of the 4-neighbour Laplacian over the foreground: edges are sharp
+// when it is high, and a blurred image has little left of them
+const checkBlur = (gray: Uint8ClampedArray, width: number, height: number): QualityCheck => {
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (gray[i] < BACKGROUND_LEVEL) continue;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      count++;
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+    }
+  }
+  const variance = count > 0 ? sumOfSquares / count - (sum / count) ** 2 : 0;
+  const measured = `Laplacian variance ${variance.toFixed(1)}`;
+  if (variance < MIN_LAPLACIAN_VARIANCE) {
+    return {
+      id: 'blur',
+      label: 'Sharpness',
+      status: 'fail',
+      explanation: `${measured}; the image is out of focus or was enlarged from a much smaller one.`,
+    };
+  }
+  if (variance < WARN_LAPLACIAN_VARIANCE) {
+    return { id: 'blur', label: 'Sharpness', status: 'warn', explanation: `${measured}; the image looks soft.` };
+  }
+  return { id: 'blur', label: 'Sharpness', status: 'pass', explanation: measured };
+};
+
+// The black background of a scan is expected, so only the foreground is
+// judged: clipped highlights, and contrast between its 1st and 99th percentile
+const checkExposure = (gray: Uint8ClampedArray): QualityCheck => {
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[value]++;
+  const foreground = gray.length - histogram.slice(0, BACKGROUND_LEVEL).reduce((sum, count) => sum + count, 0);
+
+  if (foreground / gray.length < MIN_FOREGROUND) {
+    return {
+      id: 'exposure',
+      label: 'Exposure',
+      status: 'fail',
+      explanation: `Only ${percent(foreground / gray.length)} of the image is brighter than black; it is underexposed or empty.`,
+    };
+  }
+
+  const clipped = histogram.slice(250).reduce((sum, count) => sum + count, 0) / gray.length;
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let value = BACKGROUND_LEVEL; value < 256; value++) {
+      seen += histogram[value];
+      if (seen >= foreground * fraction) return value;
+    }
+    return 255;
+  };
+  const contrast = percentile(0.99) - percentile(0.01);
+
+  const findings: { status: QualityStatus; text: string }[] = [];
+  if (clipped >= WARN_CLIPPED) {
+    findings.push({
+      status: clipped >= MAX_CLIPPED ? 'fail' : 'warn',
+      text: `${percent(clipped)} of the pixels are clipped to white, so detail in the bright tissue is lost`,
+    });
+  }
+  if (contrast < MIN_CONTRAST) {
+    findings.push({ status: 'warn', text: `the tissue spans only ${contrast} gray levels, so it looks washed out` });
+  }
+  if (findings.length === 0) {
+    return {
+      id: 'exposure',
+      label: 'Exposure',
+      status: 'pass',
+      explanation: `${percent(clipped)} clipped, ${contrast} gray levels of contrast.`,
+    };
+  }
+  const text = findings.map((finding) => finding.text).join('; and ');
+  return {
+    id: 'exposure',
+    label: 'Exposure',
+    status: worst(findings.map((finding) => finding.status)),
+    explanation: `${text.charAt(0).toUpperCase()}${text.slice(1)}.`,
+  };
+};
+
+// JPEG encodes 8 × 8 blocks on their own; heavy compression leaves steps on
+// the block edges. The score compares the mean step across block edges with
+// the mean step between any other neighbours: 1 when there are no blocks.
+const checkCompression = (gray: Uint8ClampedArray, width: number, height: number): QualityCheck => {
+  const steps = { edge: 0, edgeCount: 0, inner: 0, innerCount: 0 };
+  const add = (a: number, b: number, onEdge: boolean) => {
+    if (gray[a] < BACKGROUND_LEVEL && gray[b] < BACKGROUND_LEVEL) return;
+    const step = Math.abs(gray[a] - gray[b]);
+    if (onEdge) {
+      steps.edge += step;
+      steps.edgeCount++;
+    } else {
+      steps.inner += step;
+      steps.innerCount++;
+    }
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x + 1 < width) add(i, i + 1, x % 8 === 7);
+      if (y + 1 < height) add(i, i + width, y % 8 === 7);
+    }
+  }
+
+  const inner = steps.innerCount > 0 ? steps.inner / steps.innerCount : 0;
+  const edge = steps.edgeCount > 0 ? steps.edge / steps.edgeCount : 0;
+  const score = inner > 0 ? edge / inner : 1;
+  const measured = `Blockiness ${score.toFixed(2)}`;
+  if (score > MAX_BLOCKINESS) {
+    return {
+      id: 'compression',
+      label: 'Compression',
+      status: 'fail',
+      explanation: `${measured}; heavy JPEG compression has left block artifacts that can hide or mimic lesions.`,
+    };
+  }
+  if (score > WARN_BLOCKINESS) {
+    return {
+      id: 'compression',
+      label: 'Compression',
+      status: 'warn',
+      explanation: `${measured}; some JPEG block artifacts are visible. Upload the original if you have it.`,
+    };
+  }
+  return { id: 'compression', label: 'Compression', status: 'pass', explanation: measured };
+};
+
+/** Checks the pixels the model would receive; a `fail` blocks submission unless the user overrides it. */
+export const assessImageQuality = (image: ImageData): QualityCheck[] => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  return [
+    checkResolution(width, height),
+    checkAspectRatio(width, height),
+    checkColor(image),
+    checkBlur(gray, width, height),
+    checkExposure(gray),
+    checkCompression(gray, width, height),
+  ];
+};
+
+export const failedChecks = (checks: QualityCheck[]) => checks.filter((check) => check.status === 'fail');
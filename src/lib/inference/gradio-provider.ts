@@ -0,0 +1,193 @@
+import { Client, prepare_files, type FileData } from '@gradio/client';
+import { createAbortError, isAbortError } from './abort';
+import { probeHealth } from './health';
+import { PredictionParseError, toDomainDistance, toPredictionResults } from './predictions';
+import { InferenceTimeoutError, ModelError, withTimeout } from './resilience';
+import { joinUrl } from './url';
+import type { InferenceConfig, InferenceProvider, PredictRequest, StudyPredictRequest } from './types';
+
+const toFile = (image: Blob) =>
+  image instanceof File ? image : new File([image], 'image', { type: image.type });
+
+/**
+ * Submits the job and follows its status events until the output arrives.
+ * Time spent waiting in the host's queue does not count towards the predict
+ * timeout, which only starts once the job is being processed.
+ */
+const runJob = (
+  client: Client,
+  config: InferenceConfig,
+  endpoint: string,
+  data: Record<string, unknown> | unknown[],
+  { signal, onProgress }: Omit<PredictRequest, 'image'>
+) =>
+  new Promise<unknown>((resolve, reject) => {
+    const job = client.submit(endpoint, data);
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const settle = (error: unknown, data?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadline);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) {
+        job.cancel().catch(() => undefined);
+        reject(error);
+      } else {
+        resolve(data);
+      }
+    };
+    const onAbort = () => settle(createAbortError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const startDeadline = () => {
+      deadline ??= setTimeout(
+        () => settle(new InferenceTimeoutError('predict', config.timeouts.predictMs)),
+        config.timeouts.predictMs
+      );
+    };
+
+    (async () => {
+      for await (const event of job) {
+        if (event.type === 'data') {
+          settle(null, event.data);
+          return;
+        }
+        if (event.type !== 'status') continue;
+
+        if (event.stage === 'error') {
+          throw new ModelError(event.message || 'The model failed to process the image');
+        }
+        // Every status before `process_starts` is 'pending', with or without a
+        // position; progress updates while processing are 'pending' too
+        const processing =
+          event.stage === 'generating' || event.stage === 'streaming' || event.original_msg === 'process_starts';
+        if (processing) {
+          startDeadline();
+          onProgress?.({ stage: 'processing', etaSeconds: event.eta });
+        } else if (event.stage === 'pending' && deadline === undefined) {
+          onProgress?.({ stage: 'queued', queuePosition: event.position, queueSize: event.size, etaSeconds: event.eta });
+        }
+      }
+      throw new Error('The model job ended without returning a result');
+    })().catch((error) => settle(error));
+  });
+
+export const createGradioProvider = (config: InferenceConfig): InferenceProvider => {
+  const { timeouts } = config;
+  const healthUrl = joinUrl(config.url, config.health.endpoint ?? '/config');
+
+  // Client.connect re-fetches the app config, so one connection is shared
+  // across requests until it expires or a request fails on it.
+  let connection: { client: Promise<Client>; connectedAt: number } | null = null;
+
+  const dropConnection = (client?: Promise<Client>) => {
+    if (connection && (!client || connection.client === client)) {
+      connection.client.then((stale) => stale.close(), () => undefined);
+      connection = null;
+    }
+  };
+
+  const acquireClient = () => {
+    if (connection && Date.now() - connection.connectedAt > config.connectionTtlMs) {
+      dropConnection();
+    }
+    if (!connection) {
+      const client = Client.connect(config.url, { events: ['data', 'status'] });
+      connection = { client, connectedAt: Date.now() };
+      // A failed connect must not be cached for the next request
+      client.catch(() => dropConnection(client));
+    }
+    return connection.client;
+  };
+
+  // Uploads the images, runs `endpoint` on whatever `toData` builds from the
+  // uploaded files, and reads the first output with `parse`
+  const run = async <T>(
+    endpoint: string,
+    images: Blob[],
+    request: Omit<PredictRequest, 'image'>,
+    toData: (files: FileData[]) => Record<string, unknown> | unknown[],
+    parse: (output: unknown) => T
+  ) => {
+    const { signal, onProgress } = request;
+    onProgress?.({ stage: 'connecting' });
+    const pooled = acquireClient();
+
+    try {
+      const client = await withTimeout('connect', timeouts.connectMs, () => pooled, signal);
+
+      // Upload separately so a slow upload is not mistaken for a slow model
+      onProgress?.({ stage: 'uploading' });
+      const uploaded = await withTimeout('upload', timeouts.uploadMs, async () => {
+        const files = await client.upload(await prepare_files(images.map(toFile)), client.config.root);
+        if (files?.length !== images.length || files.some((file) => !file)) {
+          throw new Error('Image upload returned no file reference');
+        }
+        return files;
+      }, signal);
+
+      onProgress?.({ stage: 'queued' });
+      const data = await runJob(client, config, endpoint, toData(uploaded), request);
+
+      onProgress?.({ stage: 'parsing' });
+
+      // The Gradio API returns an array with one entry per output component
+      if (!Array.isArray(data)) {
+        throw new PredictionParseError('Unexpected API response format', data);
+      }
+
+      return parse(data[0]);
+    } catch (error) {
+      // Reconnect on the next attempt unless the model simply answered oddly
+      if (!(error instanceof PredictionParseError) && !(error instanceof ModelError) && !isAbortError(error)) {
+        dropConnection(pooled);
+      }
+      throw error;
+    }
+  };
+
+  const toPredictions = (output: unknown) => toPredictionResults(output, config.labels, config.outputType);
+
+  return {
+    kind: 'gradio',
+    id: `gradio:${config.url}${config.endpoint}`,
+    inputs: config.inputs ?? null,
+    predict: (request: PredictRequest) =>
+      run(config.endpoint, [request.image], request, ([image]) => ({ image }), toPredictions),
+    // Multi-input endpoints take their images positionally, in the declared order
+    async predictStudy(request: StudyPredictRequest) {
+      if (!config.inputs) {
+        throw new Error('The gradio provider takes one image at a time unless inference.inputs is set');
+      }
+      return run(
+        config.endpoint,
+        config.inputs.map((sequence) => request.images[sequence]),
+        request,
+        (files) => files,
+        toPredictions
+      );
+    },
+    async checkDomain(request: PredictRequest) {
+      if (!config.domainCheck) return null;
+      const { endpoint, maxDistance } = config.domainCheck;
+      const distance = await run(endpoint, [request.image], request, ([image]) => ({ image }), toDomainDistance);
+      return { distance, maxDistance };
+    },
+    checkHealth(signal?: AbortSignal) {
+      return probeHealth(healthUrl, config, signal);
+    },
+    async getMetadata(signal?: AbortSignal) {
+      const pooled = acquireClient();
+      const client = await withTimeout('connect', timeouts.connectMs, () => pooled, signal);
+      return {
+        kind: 'gradio',
+        location: `${config.url}${config.endpoint}`,
+        title: client.config.title || undefined,
+        version: client.config.version ? `Gradio ${client.config.version}` : undefined,
+        labels: config.labels.map((label) => label.name),
+      };
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { isAbortError } from './abort';
+import { HttpError, withTimeout } from './resilience';
+import type { HealthCheckResult, InferenceConfig } from './types';
+
+/**
+ * Times a request (GET unless `init` says otherwise) against `url`. Slow
+ * responses count as degraded and any failure as offline; only cancellation
+ * is rethrown.
+ */
+export const probeHealth = async (
+  url: string,
+  config: InferenceConfig,
+  signal?: AbortSignal,
+  init?: RequestInit
+): Promise<HealthCheckResult> => {
+  const startedAt = performance.now();
+
+  try {
+    await withTimeout('connect', config.timeouts.connectMs, async (stageSignal) => {
+      const response = await fetch(url, { cache: 'no-store', ...init, signal: stageSignal });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new HttpError(response.status, response.statusText);
+      }
+    }, signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return {
+      status: 'offline',
+      latencyMs: null,
+      checkedAt: Date.now(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const latencyMs = Math.round(performance.now() - startedAt);
+  return {
+    status: latencyMs > config.health.degradedLatencyMs ? 'degraded' : 'online',
+    latencyMs,
+    checkedAt: Date.now(),
+  };
+};
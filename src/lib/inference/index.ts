@@ -0,0 +1,50 @@
+import { createGradioProvider } from './gradio-provider';
+import { createMockProvider } from './mock-provider';
+import { createOnnxProvider } from './onnx-provider';
+import { withResilience } from './resilience';
+import { createRestProvider } from './rest-provider';
+import type { InferenceConfig, InferenceProvider } from './types';
+
+export { createAbortError, isAbortError, throwIfAborted } from './abort';
+export { createMockProvider } from './mock-provider';
+export { PredictionParseError } from './predictions';
+export { tensorShape } from './preprocess';
+export { CircuitOpenError, HttpError, InferenceTimeoutError, ModelError } from './resilience';
+export type {
+  AnalysisProgress,
+  AnalysisStage,
+  CircuitBreakerConfig,
+  ClassLabel,
+  DomainCheckConfig,
+  DomainDistance,
+  EndpointMetadata,
+  HealthCheckResult,
+  HealthConfig,
+  HealthStatus,
+  InferenceConfig,
+  InferenceProvider,
+  InferenceProviderKind,
+  InferenceStage,
+  ModelOutputType,
+  MriSequence,
+  OnnxConfig,
+  PreprocessConfig,
+  PredictRequest,
+  PredictionResult,
+  RetryConfig,
+  StudyPredictRequest,
+  TimeoutConfig,
+} from './types';
+
+export const createInferenceProvider = (config: InferenceConfig): InferenceProvider => {
+  switch (config.provider) {
+    case 'gradio':
+      return withResilience(createGradioProvider(config), config.retry, config.circuitBreaker);
+    case 'rest':
+      return withResilience(createRestProvider(config), config.retry, config.circuitBreaker);
+    case 'onnx':
+      return createOnnxProvider(config);
+    case 'mock':
+      return createMockProvider();
+  }
+};
@@ -0,0 +1,39 @@
+import { delay } from './abort';
+import type { InferenceProvider, PredictRequest, PredictionResult, StudyPredictRequest } from './types';
+
+const MOCK_LATENCY_MS = 1200;
+
+const mockPredictions: PredictionResult[] = [
+  { class: 'No Tumor', confidence: 65.2 },
+  { class: 'Glioma Tumor', confidence: 23.8 },
+  { class: 'Pituitary Tumor', confidence: 8.1 },
+  { class: 'Meningioma Tumor', confidence: 2.9 }
+];
+
+const fabricate = async ({ signal, onProgress }: Omit<PredictRequest, 'image'>) => {
+  onProgress?.({ stage: 'processing' });
+  await delay(MOCK_LATENCY_MS, signal);
+  return mockPredictions.map((prediction) => ({ ...prediction }));
+};
+
+/** Returns fixed, fabricated scores. Backs Demo Mode and UI development only. */
+export const createMockProvider = (): InferenceProvider => ({
+  kind: 'mock',
+  id: 'mock',
+  inputs: null,
+  predict: (request: PredictRequest) => fabricate(request),
+  predictStudy: (request: StudyPredictRequest) => fabricate(request),
+  async checkDomain() {
+    return null;
+  },
+  async checkHealth() {
+    return { status: 'online', latencyMs: 0, checkedAt: Date.now() };
+  },
+  async getMetadata() {
+    return {
+      kind: 'mock',
+      location: 'Built-in demo data',
+      labels: mockPredictions.map((prediction) => prediction.class),
+    };
+  },
+});
@@ -0,0 +1,11 @@
+import type { AnalysisStage, OnnxConfig } from './types';
+
+export type OnnxWorkerRequest =
+  | { type: 'predict'; id: number; config: OnnxConfig; image: Blob }
+  /** Drops a queued request; one that is already running finishes. */
+  | { type: 'cancel'; id: number };
+
+export type OnnxWorkerResponse =
+  | { type: 'progress'; id: number; stage: AnalysisStage }
+  | { type: 'result'; id: number; scores: number[] }
+  | { type: 'error'; id: number; message: string };
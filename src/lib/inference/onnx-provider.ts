@@ -0,0 +1,131 @@
+import { createAbortError } from './abort';
+import { probeHealth } from './health';
+import type { OnnxWorkerRequest, OnnxWorkerResponse } from './onnx-protocol';
+import { toPredictionResults } from './predictions';
+import { withTimeout } from './resilience';
+import type { AnalysisProgress, InferenceConfig, InferenceProvider, PredictRequest } from './types';
+
+interface PendingRequest {
+  resolve: (scores: number[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * Runs an ONNX export of the classifier in the browser with onnxruntime-web
+ * on the WASM CPU backend, inside a Web Worker so the UI stays responsive.
+ */
+export const createOnnxProvider = (config: InferenceConfig): InferenceProvider => {
+  const { onnx } = config;
+  const pending = new Map<number, PendingRequest>();
+  let worker: Worker | null = null;
+  let nextId = 0;
+  let modelLoaded = false;
+
+  const failAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (worker) {
+      return worker;
+    }
+
+    worker = new Worker(new URL('../../workers/onnx-inference.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data: message }: MessageEvent<OnnxWorkerResponse>) => {
+      const request = pending.get(message.id);
+      if (!request) return;
+
+      if (message.type === 'progress') {
+        request.onProgress?.({ stage: message.stage });
+        return;
+      }
+
+      pending.delete(message.id);
+      if (message.type === 'result') {
+        modelLoaded = true;
+        request.resolve(message.scores);
+      } else {
+        request.reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      failAll(new Error(event.message || 'The local inference worker crashed'));
+      worker?.terminate();
+      worker = null;
+      modelLoaded = false;
+    };
+
+    return worker;
+  };
+
+  // The worker runs one request at a time. An aborted request is taken out
+  // of its queue, but a running session cannot be interrupted, so that
+  // request only stops waiting and its late result is dropped.
+  const runInWorker = (image: Blob, onProgress: PredictRequest['onProgress'], signal: AbortSignal) =>
+    new Promise<number[]>((resolve, reject) => {
+      const id = nextId++;
+      const onAbort = () => {
+        pending.delete(id);
+        const cancel: OnnxWorkerRequest = { type: 'cancel', id };
+        worker?.postMessage(cancel);
+        reject(signal.reason ?? createAbortError());
+      };
+      pending.set(id, {
+        resolve: (scores) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(scores);
+        },
+        reject: (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress,
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      const request: OnnxWorkerRequest = { type: 'predict', id, config: onnx, image };
+      getWorker().postMessage(request);
+    });
+
+  return {
+    kind: 'onnx',
+    id: `onnx:${onnx.modelUrl}`,
+    // The worker builds a single image tensor, so studies are rated one sequence at a time
+    inputs: null,
+    async predict({ image, signal, onProgress }: PredictRequest) {
+      const scores = await withTimeout(
+        'predict',
+        config.timeouts.predictMs,
+        (stageSignal) => runInWorker(image, onProgress, stageSignal),
+        signal
+      );
+
+      onProgress?.({ stage: 'parsing' });
+      return toPredictionResults(scores, config.labels, config.outputType);
+    },
+    async predictStudy() {
+      throw new Error('The onnx provider takes one image at a time');
+    },
+    // The exported classifier has no embedding output to measure
+    async checkDomain() {
+      return null;
+    },
+    async checkHealth(signal?: AbortSignal) {
+      if (modelLoaded) {
+        return { status: 'online', latencyMs: null, checkedAt: Date.now() };
+      }
+      // HEAD only, so the check never downloads the model itself
+      return probeHealth(onnx.modelUrl, config, signal, { method: 'HEAD' });
+    },
+    async getMetadata() {
+      return {
+        kind: 'onnx',
+        location: onnx.modelUrl,
+        version: 'onnxruntime-web (WASM)',
+        labels: config.labels.map((label) => label.name),
+      };
+    },
+  };
+};
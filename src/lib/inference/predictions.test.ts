@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PredictionParseError, toDomainDistance, toPredictionResults } from './predictions';
+
+const labels = [
+  { key: 'glioma_tumor', name: 'Glioma Tumor' },
+  { key: 'no_tumor', name: 'No Tumor' },
+  { key: 'pituitary_tumor', name: 'Pituitary Tumor' },
+];
+
+const expected = [
+  { class: 'No Tumor', confidence: 70 },
+  { class: 'Glioma Tumor', confidence: 20 },
+  { class: 'Pituitary Tumor', confidence: 10 },
+];
+
+const rounded = (results: { class: string; confidence: number }[]) =>
+  results.map(({ class: className, confidence }) => ({ class: className, confidence: Number(confidence.toFixed(6)) }));
+
+describe('toPredictionResults', () => {
+  it('reads scores in the order of the configured labels', () => {
+    expect(rounded(toPredictionResults([0.2, 0.7, 0.1], labels, 'probabilities'))).toEqual(expected);
+  });
+
+  it('reads a dictionary keyed by output key or display name', () => {
+    const output = { glioma_tumor: 0.2, 'No Tumor': 0.7, pituitary_tumor: 0.1 };
+    expect(rounded(toPredictionResults(output, labels, 'probabilities'))).toEqual(expected);
+  });
+
+  it('reads the output of a Gradio Label component', () => {
+    const output = {
+      label: 'no_tumor',
+      confidences: [
+        { label: 'no_tumor', confidence: 0.7 },
+        { label: 'glioma_tumor', confidence: 0.2 },
+        { label: 'pituitary_tumor', confidence: 0.1 },
+      ],
+    };
+    expect(rounded(toPredictionResults(output, labels, 'probabilities'))).toEqual(expected);
+  });
+
+  it('turns logits into probabilities when the output type says so', () => {
+    const results = toPredictionResults([0, Math.log(3.5), Math.log(0.5)], labels, 'logits');
+    expect(rounded(results)).toEqual(expected);
+  });
+
+  it('applies the softmax to logits that happen to fall in [0, 1]', () => {
+    const results = toPredictionResults([0.2, 0.7, 0.1], labels, 'logits');
+    expect(results.reduce((sum, { confidence }) => sum + confidence, 0)).toBeCloseTo(100);
+    expect(results[0].confidence).toBeLessThan(70);
+  });
+
+  it('rejects scores outside [0, 1] unless they are logits', () => {
+    expect(() => toPredictionResults([2.1, -0.4, 0.3], labels, 'probabilities')).toThrow(/output type set to logits/);
+  });
+
+  it('rejects probabilities that do not sum to 1', () => {
+    expect(() => toPredictionResults([0.2, 0.2, 0.1], labels, 'probabilities')).toThrow(/sum to 0.500/);
+  });
+
+  it('rejects a score count that does not match the labels', () => {
+    expect(() => toPredictionResults([0.3, 0.7], labels, 'probabilities')).toThrow(/2 scores but 3 classes/);
+  });
+
+  it('rejects unknown and missing classes', () => {
+    expect(() => toPredictionResults({ glioma_tumor: 0.5, meningioma_tumor: 0.5 }, labels, 'probabilities')).toThrow(
+      /unknown class "meningioma_tumor"/
+    );
+    expect(() => toPredictionResults({ glioma_tumor: 0.3, no_tumor: 0.7 }, labels, 'probabilities')).toThrow(
+      /missing a score for "pituitary_tumor"/
+    );
+  });
+
+  it('rejects output of any other shape, keeping it for diagnosis', () => {
+    expect(() => toPredictionResults('glioma', labels, 'probabilities')).toThrow(
+      expect.objectContaining({ name: 'PredictionParseError', output: 'glioma' })
+    );
+  });
+});
+
+describe('toDomainDistance', () => {
+  it('reads a bare number, a one-element array or an object', () => {
+    expect(toDomainDistance(0.42)).toBe(0.42);
+    expect(toDomainDistance([0.42])).toBe(0.42);
+    expect(toDomainDistance({ distance: 0.42 })).toBe(0.42);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => toDomainDistance(-1)).toThrow(PredictionParseError);
+    expect(() => toDomainDistance({ score: 0.42 })).toThrow(PredictionParseError);
+  });
+});
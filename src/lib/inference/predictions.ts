@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import type { ClassLabel, ModelOutputType, PredictionResult } from './types';
+
+/** How far the scores may stray from summing to 1 before they are rejected. */
+const PROBABILITY_SUM_TOLERANCE = 0.01;
+
+const scoreSchema = z.number().finite();
+
+/** `[0.1, 0.7, 0.15, 0.05]`, in the order of the configured labels. */
+export const scoreArraySchema = z.array(scoreSchema).min(1);
+
+/** `{ glioma_tumor: 0.7, no_tumor: 0.1, ... }` */
+export const labelScoreDictionarySchema = z.record(scoreSchema);
+
+/** Output of a Gradio `Label` component. */
+export const gradioLabelSchema = z.object({
+  label: z.string().nullish(),
+  confidences: z
+    .array(
+      z.object({
+        label: z.string(),
+        confidence: scoreSchema,
+      })
+    )
+    .min(1),
+});
+
+interface GradioLabelOutput {
+  label?: string | null;
+  confidences: { label: string; confidence: number }[];
+}
+
+export class PredictionParseError extends Error {
+  constructor(message: string, readonly output?: unknown) {
+    super(message);
+    this.name = 'PredictionParseError';
+  }
+}
+
+const softmax = (logits: number[]) => {
+  const max = Math.max(...logits);
+  const exps = logits.map((logit) => Math.exp(logit - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map((value) => value / total);
+};
+
+// The values cannot tell logits from probabilities (logits may well fall in
+// [0, 1]), so the configured output type decides.
+const toProbabilities = (scores: number[], outputType: ModelOutputType, output: unknown) => {
+  if (outputType === 'logits') {
+    return softmax(scores);
+  }
+
+  if (scores.some((score) => score < 0 || score > 1)) {
+    throw new PredictionParseError('Model scores are not probabilities; is the output type set to logits?', output);
+  }
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  if (Math.abs(total - 1) > PROBABILITY_SUM_TOLERANCE) {
+    throw new PredictionParseError(`Model scores sum to ${total.toFixed(3)} instead of 1`, output);
+  }
+  return scores;
+};
+
+const toSortedResults = (
+  labels: ClassLabel[],
+  scores: number[],
+  outputType: ModelOutputType,
+  output: unknown
+): PredictionResult[] => {
+  const probabilities = toProbabilities(scores, outputType, output);
+  return labels
+    .map((label, index) => ({ class: label.name, confidence: probabilities[index] * 100 }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+// Model outputs may be keyed by either the output key or the display name
+const scoresByLabel = (labels: ClassLabel[], entries: [string, number][], output: unknown) => {
+  const scores = new Map<string, number>();
+  for (const [key, score] of entries) {
+    const label = labels.find((candidate) => candidate.key === key || candidate.name === key);
+    if (!label) {
+      throw new PredictionParseError(`Model returned an unknown class "${key}"`, output);
+    }
+    scores.set(label.key, score);
+  }
+
+  return labels.map((label) => {
+    if (!scores.has(label.key)) {
+      throw new PredictionParseError(`Model output is missing a score for "${label.key}"`, output);
+    }
+    return scores.get(label.key);
+  });
+};
+
+export const fromScoreArray = (
+  output: number[],
+  labels: ClassLabel[],
+  outputType: ModelOutputType
+): PredictionResult[] => {
+  if (output.length !== labels.length) {
+    throw new PredictionParseError(
+      `Model returned ${output.length} scores but ${labels.length} classes are configured`,
+      output
+    );
+  }
+  return toSortedResults(labels, output, outputType, output);
+};
+
+export const fromLabelScoreDictionary = (
+  output: Record<string, number>,
+  labels: ClassLabel[],
+  outputType: ModelOutputType
+): PredictionResult[] =>
+  toSortedResults(labels, scoresByLabel(labels, Object.entries(output), output), outputType, output);
+
+export const fromGradioLabel = (
+  output: GradioLabelOutput,
+  labels: ClassLabel[],
+  outputType: ModelOutputType
+): PredictionResult[] =>
+  toSortedResults(
+    labels,
+    scoresByLabel(
+      labels,
+      output.confidences.map(({ label, confidence }) => [label, confidence]),
+      output
+    ),
+    outputType,
+    output
+  );
+
+/**
+ * Validates raw model output against the supported shapes and maps it onto
+ * the configured labels, sorted by confidence (as a percentage). Logits are
+ * turned into probabilities first. Throws a `PredictionParseError` for
+ * anything it cannot interpret.
+ */
+export const toPredictionResults = (
+  output: unknown,
+  labels: ClassLabel[],
+  outputType: ModelOutputType
+): PredictionResult[] => {
+  const gradioLabel = gradioLabelSchema.safeParse(output);
+  if (gradioLabel.success) {
+    return fromGradioLabel(gradioLabel.data as GradioLabelOutput, labels, outputType);
+  }
+
+  const scoreArray = scoreArraySchema.safeParse(output);
+  if (scoreArray.success) {
+    return fromScoreArray(scoreArray.data, labels, outputType);
+  }
+
+  const dictionary = labelScoreDictionarySchema.safeParse(output);
+  if (dictionary.success) {
+    return fromLabelScoreDictionary(dictionary.data, labels, outputType);
+  }
+
+  throw new PredictionParseError('Model output does not match any supported format', output);
+};
+
+// `0.42`, `[0.42]` or `{ distance: 0.42 }`
+const domainDistanceSchema = z.union([
+  z.number().finite().nonnegative(),
+  z.tuple([z.number().finite().nonnegative()]).transform(([distance]) => distance),
+  z.object({ distance: z.number().finite().nonnegative() }).transform(({ distance }) => distance),
+]);
+
+/** Reads the embedding distance returned by a domain check endpoint. */
+export const toDomainDistance = (output: unknown): number => {
+  const distance = domainDistanceSchema.safeParse(output);
+  if (!distance.success) {
+    throw new PredictionParseError('Domain check output is not a distance', output);
+  }
+  return distance.data;
+};
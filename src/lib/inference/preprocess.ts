@@ -0,0 +1,26 @@
+import type { PreprocessConfig } from './types';
+
+export const tensorShape = ({ inputSize, layout }: PreprocessConfig) =>
+  layout === 'NCHW' ? [1, 3, inputSize, inputSize] : [1, inputSize, inputSize, 3];
+
+/**
+ * Converts RGBA pixels of an `inputSize`² image into a normalised float
+ * tensor, in the channel order and memory layout the model was exported with.
+ */
+export const toInputTensorData = (rgba: Uint8ClampedArray, config: PreprocessConfig) => {
+  const { inputSize, layout, channelOrder, scale, mean, std } = config;
+  const pixels = inputSize * inputSize;
+  const data = new Float32Array(pixels * 3);
+  const channels = channelOrder === 'RGB' ? [0, 1, 2] : [2, 1, 0];
+
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    for (let channel = 0; channel < 3; channel++) {
+      const source = channels[channel];
+      const value = (rgba[pixel * 4 + source] / scale - mean[channel]) / std[channel];
+      const target = layout === 'NCHW' ? channel * pixels + pixel : pixel * 3 + channel;
+      data[target] = value;
+    }
+  }
+
+  return data;
+};
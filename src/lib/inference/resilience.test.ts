@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAbortError } from './abort';
+import { createMockProvider } from './mock-provider';
+import { PredictionParseError } from './predictions';
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  HttpError,
+  InferenceTimeoutError,
+  isTransientError,
+  ModelError,
+  withResilience,
+  withTimeout,
+} from './resilience';
+
+const failing = () => Promise.reject(new Error('connection reset'));
+
+describe('isTransientError', () => {
+  it('retries network failures, timeouts and overloaded hosts', () => {
+    expect(isTransientError(new Error('connection reset'))).toBe(true);
+    expect(isTransientError(new InferenceTimeoutError('predict', 1000))).toBe(true);
+    expect(isTransientError(new HttpError(503, 'Service Unavailable'))).toBe(true);
+    expect(isTransientError(new HttpError(429, 'Too Many Requests'))).toBe(true);
+    expect(isTransientError(new HttpError(408, 'Request Timeout'))).toBe(true);
+  });
+
+  it('does not retry what another attempt cannot fix', () => {
+    expect(isTransientError(new HttpError(400, 'Bad Request'))).toBe(false);
+    expect(isTransientError(new ModelError('CUDA out of memory'))).toBe(false);
+    expect(isTransientError(new PredictionParseError('unreadable'))).toBe(false);
+    expect(isTransientError(new CircuitOpenError(0))).toBe(false);
+    expect(isTransientError(createAbortError())).toBe(false);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const openBreaker = async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    await expect(breaker.execute(failing)).rejects.toThrow('connection reset');
+    await expect(breaker.execute(failing)).rejects.toThrow('connection reset');
+    return breaker;
+  };
+
+  it('opens after the failure threshold and rejects without calling the endpoint', async () => {
+    const breaker = await openBreaker();
+    expect(breaker.state).toBe('open');
+    expect(breaker.retryAt).toBe(1000);
+
+    const run = vi.fn(() => Promise.resolve('ok'));
+    await expect(breaker.execute(run)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('does not count errors that are not transient', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.execute(() => Promise.reject(new HttpError(400, 'Bad Request')))).rejects.toThrow();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('resets the failure count after a success', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    await breaker.execute(() => Promise.resolve('ok'));
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets a single trial request through once the cooldown is over', async () => {
+    const breaker = await openBreaker();
+    vi.setSystemTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    let settle: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => (settle = resolve)));
+    expect(breaker.state).toBe('open');
+    await expect(breaker.execute(() => Promise.resolve('second'))).rejects.toBeInstanceOf(CircuitOpenError);
+
+    settle('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+    expect(breaker.retryAt).toBeNull();
+  });
+
+  it('re-opens straight away when the trial request fails', async () => {
+    const breaker = await openBreaker();
+    vi.setSystemTime(1500);
+
+    await expect(breaker.execute(failing)).rejects.toThrow('connection reset');
+    expect(breaker.state).toBe('open');
+    expect(breaker.retryAt).toBe(2500);
+  });
+});
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects with the stage that ran out of time', async () => {
+    const stage = withTimeout('upload', 500, () => new Promise(() => undefined));
+    const rejection = expect(stage).rejects.toMatchObject({ name: 'InferenceTimeoutError', stage: 'upload' });
+    await vi.advanceTimersByTimeAsync(500);
+    await rejection;
+  });
+
+  it('passes an abort from the caller on to the stage', async () => {
+    const controller = new AbortController();
+    let stageSignal: AbortSignal;
+    const stage = withTimeout('predict', 500, (signal) => {
+      stageSignal = signal;
+      return new Promise(() => undefined);
+    }, controller.signal);
+
+    controller.abort();
+    await expect(stage).rejects.toMatchObject({ name: 'AbortError' });
+    expect(stageSignal.aborted).toBe(true);
+  });
+});
+
+describe('withResilience', () => {
+  const retry = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+  const circuitBreaker = { failureThreshold: 5, cooldownMs: 1000 };
+  const request = { requestId: 'a', image: new Blob() };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures until an attempt succeeds', async () => {
+    const provider = createMockProvider();
+    const predictions = [{ class: 'Glioma Tumor', confidence: 100 }];
+    const predict = vi
+      .spyOn(provider, 'predict')
+      .mockRejectedValueOnce(new HttpError(502, 'Bad Gateway'))
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(predictions);
+
+    await expect(withResilience(provider, retry, circuitBreaker).predict(request)).resolves.toBe(predictions);
+    expect(predict).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const provider = createMockProvider();
+    const predict = vi.spyOn(provider, 'predict').mockRejectedValue(new Error('connection reset'));
+
+    await expect(withResilience(provider, retry, circuitBreaker).predict(request)).rejects.toThrow('connection reset');
+    expect(predict).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a failure the model reported', async () => {
+    const provider = createMockProvider();
+    const predict = vi.spyOn(provider, 'predict').mockRejectedValue(new ModelError('CUDA out of memory'));
+
+    await expect(withResilience(provider, retry, circuitBreaker).predict(request)).rejects.toBeInstanceOf(ModelError);
+    expect(predict).toHaveBeenCalledTimes(1);
+  });
+});
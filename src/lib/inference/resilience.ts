@@ -0,0 +1,191 @@
+import { abortable, createAbortError, delay, isAbortError } from './abort';
+import { PredictionParseError } from './predictions';
+import type {
+  CircuitBreakerConfig,
+  InferenceProvider,
+  InferenceStage,
+  PredictRequest,
+  RetryConfig,
+  StudyPredictRequest,
+} from './types';
+
+export class InferenceTimeoutError extends Error {
+  constructor(readonly stage: InferenceStage, readonly timeoutMs: number) {
+    super(`The ${stage} stage timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'InferenceTimeoutError';
+  }
+}
+
+export class HttpError extends Error {
+  constructor(readonly status: number, statusText: string) {
+    super(`Model endpoint responded with ${status} ${statusText}`);
+    this.name = 'HttpError';
+  }
+}
+
+/** The model ran but reported that it failed, e.g. a Gradio job in its error stage. */
+export class ModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAt: number) {
+    super('The model endpoint is unavailable after repeated failures');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Runs one stage of a request with its own deadline. `run` receives a signal
+ * that aborts on timeout as well as when the caller's `signal` aborts.
+ */
+export const withTimeout = async <T>(
+  stage: InferenceStage,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(createAbortError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new InferenceTimeoutError(stage, timeoutMs)), timeoutMs);
+
+  try {
+    return await abortable(run(controller.signal), controller.signal);
+  } catch (error) {
+    // Surface the reason the stage was cut short rather than a bare AbortError
+    throw isAbortError(error) && controller.signal.reason ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Cold starts, 5xx responses, rate limiting and network drops are worth
+// retrying; bad requests, model failures, unreadable output and
+// cancellations are not.
+export const isTransientError = (error: unknown) => {
+  if (
+    isAbortError(error) ||
+    error instanceof ModelError ||
+    error instanceof PredictionParseError ||
+    error instanceof CircuitOpenError
+  ) {
+    return false;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+};
+
+/** Exponential backoff with full jitter. `attempt` starts at 1. */
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryConfig) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  /** When an open breaker lets the next trial request through. */
+  readonly retryAt: number | null;
+  execute<T>(run: () => Promise<T>): Promise<T>;
+}
+
+export const createCircuitBreaker = ({ failureThreshold, cooldownMs }: CircuitBreakerConfig): CircuitBreaker => {
+  let failures = 0;
+  let openedAt: number | null = null;
+  // Once the cooldown is over, a single trial request goes through; the
+  // breaker reads as open to everyone else until that request settles
+  let probing = false;
+
+  const currentState = (): CircuitState => {
+    if (openedAt === null) return 'closed';
+    return Date.now() - openedAt >= cooldownMs && !probing ? 'half-open' : 'open';
+  };
+
+  return {
+    get state() {
+      return currentState();
+    },
+    get retryAt() {
+      return openedAt === null ? null : openedAt + cooldownMs;
+    },
+    async execute(run) {
+      const state = currentState();
+      if (state === 'open') {
+        throw new CircuitOpenError(openedAt + cooldownMs);
+      }
+      if (state === 'half-open') {
+        probing = true;
+      }
+
+      try {
+        const result = await run();
+        failures = 0;
+        openedAt = null;
+        return result;
+      } catch (error) {
+        if (isTransientError(error)) {
+          failures += 1;
+          // A failed trial request re-opens the breaker straight away
+          if (state === 'half-open' || failures >= failureThreshold) {
+            openedAt = Date.now();
+          }
+        }
+        throw error;
+      } finally {
+        if (state === 'half-open') {
+          probing = false;
+        }
+      }
+    },
+  };
+};
+
+/**
+ * Wraps a provider with jittered retries for transient errors and a circuit
+ * breaker that stops calling the endpoint after repeated failures. The domain
+ * check is optional, so it is tried once and its failures do not count
+ * against the breaker.
+ */
+export const withResilience = (
+  provider: InferenceProvider,
+  retry: RetryConfig,
+  circuitBreaker: CircuitBreakerConfig
+): InferenceProvider & { breaker: CircuitBreaker } => {
+  const breaker = createCircuitBreaker(circuitBreaker);
+
+  const withRetries = async <T>(run: () => Promise<T>, signal?: AbortSignal) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await breaker.execute(run);
+      } catch (error) {
+        if (attempt >= retry.maxAttempts || !isTransientError(error)) {
+          throw error;
+        }
+        console.warn(`Prediction attempt ${attempt} failed, retrying:`, error);
+        await delay(backoffDelay(attempt, retry), signal);
+      }
+    }
+  };
+
+  return {
+    kind: provider.kind,
+    id: provider.id,
+    inputs: provider.inputs,
+    breaker,
+    predict: (request: PredictRequest) => withRetries(() => provider.predict(request), request.signal),
+    predictStudy: (request: StudyPredictRequest) => withRetries(() => provider.predictStudy(request), request.signal),
+    checkDomain: (request: PredictRequest) => provider.checkDomain(request),
+    async checkHealth(signal?: AbortSignal) {
+      const health = await provider.checkHealth(signal);
+      // Reachable, but the breaker is still holding requests back
+      return health.status === 'online' && breaker.state === 'open' ? { ...health, status: 'degraded' } : health;
+    },
+    getMetadata: (signal?: AbortSignal) => provider.getMetadata(signal),
+  };
+};
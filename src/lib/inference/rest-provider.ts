@@ -0,0 +1,72 @@
+import { probeHealth } from './health';
+import { toDomainDistance, toPredictionResults } from './predictions';
+import { HttpError, withTimeout } from './resilience';
+import { joinUrl } from './url';
+import type { InferenceConfig, InferenceProvider, PredictRequest, StudyPredictRequest } from './types';
+
+/**
+ * Plain HTTP backend: POSTs the image as multipart form data and expects the
+ * model output as a JSON body, optionally wrapped in `{ data: ... }`. A study
+ * is sent as one form with a field per sequence (`t1`, `t1c`, `t2`, `flair`).
+ */
+export const createRestProvider = (config: InferenceConfig): InferenceProvider => {
+  const url = joinUrl(config.url, config.endpoint);
+  const healthUrl = joinUrl(config.url, config.health.endpoint ?? '/health');
+
+  const domainCheckUrl = config.domainCheck && joinUrl(config.url, config.domainCheck.endpoint);
+
+  const send = async (target: string, body: FormData, signal?: AbortSignal) => {
+    const json = await withTimeout('predict', config.timeouts.predictMs, async (stageSignal) => {
+      const response = await fetch(target, { method: 'POST', body, signal: stageSignal });
+      if (!response.ok) {
+        throw new HttpError(response.status, response.statusText);
+      }
+      return response.json();
+    }, signal);
+    return json && typeof json === 'object' && 'data' in json ? json.data : json;
+  };
+
+  const post = async (body: FormData, { signal, onProgress }: Omit<PredictRequest, 'image'>) => {
+    // A single request covers both upload and inference, so it is reported
+    // as processing and gets the predict deadline
+    onProgress?.({ stage: 'processing' });
+    const output = await send(url, body, signal);
+
+    onProgress?.({ stage: 'parsing' });
+    return toPredictionResults(output, config.labels, config.outputType);
+  };
+
+  return {
+    kind: 'rest',
+    id: `rest:${url}`,
+    inputs: config.inputs ?? null,
+    predict(request: PredictRequest) {
+      const body = new FormData();
+      body.append('image', request.image);
+      return post(body, request);
+    },
+    async predictStudy(request: StudyPredictRequest) {
+      if (!config.inputs) {
+        throw new Error('The rest provider takes one image at a time unless inference.inputs is set');
+      }
+      const body = new FormData();
+      for (const sequence of config.inputs) {
+        body.append(sequence, request.images[sequence]);
+      }
+      return post(body, request);
+    },
+    async checkDomain(request: PredictRequest) {
+      if (!domainCheckUrl) return null;
+      const body = new FormData();
+      body.append('image', request.image);
+      const distance = toDomainDistance(await send(domainCheckUrl, body, request.signal));
+      return { distance, maxDistance: config.domainCheck.maxDistance };
+    },
+    checkHealth(signal?: AbortSignal) {
+      return probeHealth(healthUrl, config, signal);
+    },
+    async getMetadata() {
+      return { kind: 'rest', location: url, labels: config.labels.map((label) => label.name) };
+    },
+  };
+};
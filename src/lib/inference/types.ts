@@ -0,0 +1,159 @@
+export interface PredictionResult {
+  class: string;
+  confidence: number;
+}
+
+export type InferenceProviderKind = 'gradio' | 'rest' | 'onnx' | 'mock';
+
+/** MRI sequences of a study: T1, contrast-enhanced T1, T2 and FLAIR. */
+export type MriSequence = 't1' | 't1c' | 't2' | 'flair';
+
+/** Maps a model output key (e.g. `glioma_tumor`) to the name shown in the UI. */
+export interface ClassLabel {
+  key: string;
+  name: string;
+}
+
+/** Whether the model's scores are already probabilities or raw logits that need a softmax. */
+export type ModelOutputType = 'probabilities' | 'logits';
+
+export type InferenceStage = 'connect' | 'upload' | 'predict';
+
+export type TimeoutConfig = Record<`${InferenceStage}Ms`, number>;
+
+export interface RetryConfig {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Consecutive transient failures before the breaker opens. */
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface HealthConfig {
+  /** Path polled for reachability; defaults per provider when omitted. */
+  endpoint?: string;
+  intervalMs: number;
+  /** Responses slower than this mark the endpoint as degraded. */
+  degradedLatencyMs: number;
+}
+
+/** How an image is turned into the input tensor of the exported classifier. */
+export interface PreprocessConfig {
+  /** Images are resized to a square of this many pixels. */
+  inputSize: number;
+  layout: 'NCHW' | 'NHWC';
+  channelOrder: 'RGB' | 'BGR';
+  /** Pixel values are divided by this first, e.g. 255 to map them to [0, 1]. */
+  scale: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+}
+
+export interface OnnxConfig {
+  modelUrl: string;
+  /** Defaults to the model's first input and output. */
+  inputName?: string;
+  outputName?: string;
+  /** Where the onnxruntime-web `.wasm` files are served from, if not bundled. */
+  wasmPaths?: string;
+  preprocess: PreprocessConfig;
+}
+
+/** An endpoint that scores how far an image's embedding lies from the model's training data. */
+export interface DomainCheckConfig {
+  endpoint: string;
+  /** Distances above this mean the image is outside the model's intended domain. */
+  maxDistance: number;
+}
+
+export interface InferenceConfig {
+  provider: InferenceProviderKind;
+  url: string;
+  endpoint: string;
+  labels: ClassLabel[];
+  outputType: ModelOutputType;
+  timeouts: TimeoutConfig;
+  retry: RetryConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  health: HealthConfig;
+  /** How long a connected Gradio client is reused before reconnecting. */
+  connectionTtlMs: number;
+  /** Required by the in-browser `onnx` provider. */
+  onnx?: OnnxConfig;
+  /**
+   * Sequences the model takes together in one request, in this order. Unset
+   * for single-image models, which get one request per sequence of a study.
+   */
+  inputs?: MriSequence[];
+  /** Optional; only the gradio and rest providers can serve it. */
+  domainCheck?: DomainCheckConfig;
+}
+
+export type AnalysisStage = 'connecting' | 'uploading' | 'queued' | 'processing' | 'parsing';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  /** 0-based position in the model host's queue, while `queued`. */
+  queuePosition?: number;
+  queueSize?: number;
+  /** The host's estimate of the remaining wait, in seconds. */
+  etaSeconds?: number;
+}
+
+export interface PredictRequest {
+  /** Correlates the request with the upload that started it. */
+  requestId: string;
+  image: Blob;
+  /** Aborts the request; providers reject with an `AbortError`. */
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface StudyPredictRequest extends Omit<PredictRequest, 'image'> {
+  /** One image for each of the provider's `inputs`. */
+  images: Partial<Record<MriSequence, Blob>>;
+}
+
+export interface DomainDistance {
+  distance: number;
+  maxDistance: number;
+}
+
+export type HealthStatus = 'online' | 'degraded' | 'offline';
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  latencyMs: number | null;
+  checkedAt: number;
+  error?: string;
+}
+
+export interface EndpointMetadata {
+  kind: InferenceProviderKind;
+  /** Where the model runs: a URL, or the model file for in-browser inference. */
+  location: string;
+  title?: string;
+  version?: string;
+  labels: string[];
+}
+
+export interface InferenceProvider {
+  readonly kind: InferenceProviderKind;
+  /** Identifies the model host, e.g. for logging and result caching. */
+  readonly id: string;
+  /** Sequences the model takes in one combined request, or `null` if it rates one image at a time. */
+  readonly inputs: MriSequence[] | null;
+  predict(request: PredictRequest): Promise<PredictionResult[]>;
+  /** Sends every sequence of a study in one request; only valid when `inputs` is set. */
+  predictStudy(request: StudyPredictRequest): Promise<PredictionResult[]>;
+  /** Measures the image against the training data; `null` if the host serves no domain check. */
+  checkDomain(request: PredictRequest): Promise<DomainDistance | null>;
+  /** Lightweight reachability probe that never runs the model. */
+  checkHealth(signal?: AbortSignal): Promise<HealthCheckResult>;
+  getMetadata(signal?: AbortSignal): Promise<EndpointMetadata>;
+}
@@ -0,0 +1,205 @@
+import { toGray } from '@/lib/image-quality';
+
+/** A crop, in fractions of the image's width and height. */
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** What is done to an image between upload and analysis, after redaction. */
+export interface PreprocessingPipeline {
+  crop: CropBox | null;
+  /** Whether `crop` was found by auto-crop rather than drawn. */
+  autoCropped: boolean;
+  /** Pads the short side with black, so resizing to the model's square input does not squash the head. */
+  padToSquare: boolean;
+}
+
+/** A pipeline as it was applied, kept with the result so the input can be reproduced. */
+export interface PreprocessingRecord extends PreprocessingPipeline {
+  sourceWidth: number;
+  sourceHeight: number;
+  /** The crop in source pixels, as it was cut. */
+  cropPixels: { x: number; y: number; width: number; height: number } | null;
+  width: number;
+  height: number;
+}
+
+export const defaultPreprocessing: PreprocessingPipeline = { crop: null, autoCropped: false, padToSquare: false };
+
+// Drawn crops smaller than this (in either direction) are taken for stray clicks
+const MIN_CROP_SIZE = 0.05;
+// Auto-crop leaves this much of the image around the head, on each side
+const AUTO_CROP_MARGIN = 0.02;
+// A region clear of the edges is only preferred if it is not a speck next to the largest
+const MIN_INSIDE_REGION = 0.25;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const isDefaultPreprocessing = ({ crop, padToSquare }: PreprocessingPipeline) => !crop && !padToSquare;
+
+/** The crop spanned by two corners, clipped to the image; `null` if it is too small to mean anything. */
+export const cropBetween = (a: { x: number; y: number }, b: { x: number; y: number }): CropBox | null => {
+  const x = clamp(Math.min(a.x, b.x));
+  const y = clamp(Math.min(a.y, b.y));
+  const width = clamp(Math.max(a.x, b.x)) - x;
+  const height = clamp(Math.max(a.y, b.y)) - y;
+  return width < MIN_CROP_SIZE || height < MIN_CROP_SIZE ? null : { x, y, width, height };
+};
+
+/** `crop` in whole pixels of a `width` × `height` image, at least one pixel wide and high. */
+export const cropPixels = (crop: CropBox, width: number, height: number) => {
+  const left = Math.min(width - 1, Math.round(crop.x * width));
+  const top = Math.min(height - 1, Math.round(crop.y * height));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, Math.min(width, Math.round((crop.x + crop.width) * width)) - left),
+    height: Math.max(1, Math.min(height, Math.round((crop.y + crop.height) * height)) - top),
+  };
+};
+
+/** The size of a `width` × `height` image once `pipeline` is applied. */
+export const preprocessedSize = (width: number, height: number, { crop, padToSquare }: PreprocessingPipeline) => {
+  const size = crop ? cropPixels(crop, width, height) : { width, height };
+  const side = Math.max(size.width, size.height);
+  return padToSquare ? { width: side, height: side } : { width: size.width, height: size.height };
+};
+
+/**
+ * Draws `source` cropped and padded onto the whole of `target`. Works on
+ * main-thread and offscreen canvases alike, so the editor's preview matches
+ * the payload.
+ */
+export const drawPreprocessed = (
+  source: CanvasImageSource & { width: number; height: number },
+  target: HTMLCanvasElement | OffscreenCanvas,
+  pipeline: PreprocessingPipeline
+) => {
+  const crop = pipeline.crop
+    ? cropPixels(pipeline.crop, source.width, source.height)
+    : { x: 0, y: 0, width: source.width, height: source.height };
+  const size = preprocessedSize(source.width, source.height, pipeline);
+  const scale = Math.min(target.width / size.width, target.height / size.height);
+  const context = target.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, target.width, target.height);
+  // Stretched to the target when not padded, as the model's resize would
+  const [width, height] = pipeline.padToSquare
+    ? [crop.width * scale, crop.height * scale]
+    : [target.width, target.height];
+  context.drawImage(
+    source,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    (target.width - width) / 2,
+    (target.height - height) / 2,
+    width,
+    height
+  );
+};
+
+// The threshold that best separates the histogram into two classes (Otsu)
+const otsuThreshold = (histogram: Uint32Array, total: number) => {
+  let sum = 0;
+  for (let value = 0; value < 256; value++) sum += value * histogram[value];
+
+  let best = 0;
+  let bestVariance = -1;
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += value * histogram[value];
+    const difference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * difference * difference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = value;
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds the head: pixels above an Otsu threshold, then the largest
+ * 4-connected region of them, whose bounding box (plus a small margin) is
+ * the crop. Regions touching the edge of the image are viewer chrome unless
+ * there is nothing else, and burned-in text forms smaller regions. `null` if
+ * nothing stands out from the background.
+ */
+export const findHeadRegion = (image: ImageData): CropBox | null => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[value]++;
+  const threshold = otsuThreshold(histogram, gray.length);
+
+  // 0 is background, 1 is foreground not yet labelled, 2 is labelled
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) mask[i] = gray[i] > threshold ? 1 : 0;
+
+  const stack = new Int32Array(gray.length);
+  type Region = { size: number; left: number; top: number; right: number; bottom: number };
+  let best: Region | null = null;
+  let bestInside: Region | null = null;
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1) continue;
+    const region = { size: 0, left: width, top: height, right: 0, bottom: 0 };
+    let depth = 0;
+    stack[depth++] = start;
+    mask[start] = 2;
+    while (depth > 0) {
+      const i = stack[--depth];
+      const x = i % width;
+      const y = (i - x) / width;
+      region.size++;
+      region.left = Math.min(region.left, x);
+      region.right = Math.max(region.right, x);
+      region.top = Math.min(region.top, y);
+      region.bottom = Math.max(region.bottom, y);
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] === 1) {
+          mask[next] = 2;
+          stack[depth++] = next;
+        }
+      }
+    }
+    if (!best || region.size > best.size) best = region;
+    const inside = region.left > 0 && region.top > 0 && region.right < width - 1 && region.bottom < height - 1;
+    if (inside && (!bestInside || region.size > bestInside.size)) bestInside = region;
+  }
+
+  if (!best) return null;
+  const head = bestInside && bestInside.size >= best.size * MIN_INSIDE_REGION ? bestInside : best;
+  return cropBetween(
+    { x: head.left / width - AUTO_CROP_MARGIN, y: head.top / height - AUTO_CROP_MARGIN },
+    { x: (head.right + 1) / width + AUTO_CROP_MARGIN, y: (head.bottom + 1) / height + AUTO_CROP_MARGIN }
+  );
+};
+
+/** One line on what was done, e.g. for the result: `cropped to 412 × 388 px at (50, 61) by auto-crop, padded to 412 × 412 px`. */
+export const describePreprocessing = (record: PreprocessingRecord) => {
+  const steps: string[] = [];
+  if (record.cropPixels) {
+    const { x, y, width, height } = record.cropPixels;
+    steps.push(`cropped to ${width} × ${height} px at (${x}, ${y})${record.autoCropped ? ' by auto-crop' : ''}`);
+  }
+  if (record.padToSquare) {
+    steps.push(`padded to ${record.width} × ${record.height} px`);
+  }
+  return steps.length > 0 ? steps.join(', ') : 'none';
+};
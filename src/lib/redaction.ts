@@ -0,0 +1,89 @@
+import type { DicomMetadata } from '@/lib/dicom';
+
+/**
+ * A black-out rectangle, in fractions of the image's width and height so a
+ * template fits every resolution a scanner exports.
+ */
+export interface RedactionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Regions saved for reuse on images from one scanner, or from any. */
+export interface RedactionTemplate {
+  id: string;
+  name: string;
+  /** As `scannerOf` reports it; `null` for a template meant for any image. */
+  scanner: string | null;
+  regions: RedactionRegion[];
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'neuro-diagnose.redaction-templates';
+
+// Drawn regions smaller than this (in either direction) are taken for stray clicks
+const MIN_REGION_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** The region spanned by two corners, clipped to the image; `null` if it is too small to mean anything. */
+export const regionBetween = (a: { x: number; y: number }, b: { x: number; y: number }): RedactionRegion | null => {
+  const x = clamp(Math.min(a.x, b.x));
+  const y = clamp(Math.min(a.y, b.y));
+  const width = clamp(Math.max(a.x, b.x)) - x;
+  const height = clamp(Math.max(a.y, b.y)) - y;
+  return width < MIN_REGION_SIZE || height < MIN_REGION_SIZE ? null : { x, y, width, height };
+};
+
+/**
+ * Blacks out `regions` of a `width` × `height` image. Edges are rounded
+ * outwards, so a region never leaves a sliver of the text it covers.
+ */
+export const applyRedaction = (
+  context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  regions: RedactionRegion[]
+) => {
+  context.fillStyle = '#000';
+  for (const region of regions) {
+    const left = Math.floor(region.x * width);
+    const top = Math.floor(region.y * height);
+    context.fillRect(
+      left,
+      top,
+      Math.ceil((region.x + region.width) * width) - left,
+      Math.ceil((region.y + region.height) * height) - top
+    );
+  }
+};
+
+/** The scanner a DICOM file came from, e.g. `SIEMENS Skyra`; `null` for other images. */
+export const scannerOf = (metadata: DicomMetadata | null | undefined) =>
+  [metadata?.manufacturer, metadata?.manufacturerModelName].filter(Boolean).join(' ') || null;
+
+/** Templates for `scanner` first, then those meant for any image. */
+export const templatesFor = (templates: RedactionTemplate[], scanner: string | null) => [
+  ...templates.filter((template) => scanner && template.scanner === scanner),
+  ...templates.filter((template) => template.scanner === null),
+];
+
+/** Saved templates; an unreadable store reads as empty rather than failing the upload. */
+export const loadRedactionTemplates = (): RedactionTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeRedactionTemplates = (templates: RedactionTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.warn('Could not save redaction templates:', error);
+  }
+};
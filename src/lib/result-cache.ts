@@ -0,0 +1,116 @@
+import type { InferenceConfig, PredictionResult } from '@/lib/inference';
+
+const DB_NAME = 'neuro-diagnose';
+const STORE_NAME = 'prediction-results';
+
+export interface CachedResult {
+  key: string;
+  predictions: PredictionResult[];
+  createdAt: number;
+}
+
+export interface ResultCache {
+  get(key: string): Promise<CachedResult | null>;
+  set(key: string, predictions: PredictionResult[]): Promise<CachedResult>;
+}
+
+/** Results are only reused for the same image bytes sent to the same model. */
+export const resultCacheKey = (providerId: string, imageHash: string) => `${providerId}#${imageHash}`;
+
+// FNV-1a; the fingerprint only has to change with the config, not resist collisions
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash = Math.imul(hash ^ value.charCodeAt(index), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies what a cached result depends on besides the host and the image:
+ * the labels and their order, how scores are read and what the model is sent.
+ * `modelVersion` is bumped by hand when new weights are deployed at the same URL.
+ */
+export const modelFingerprint = (inference: InferenceConfig, modelVersion = '') =>
+  hashString(
+    JSON.stringify([
+      modelVersion,
+      inference.labels.map((label) => [label.key, label.name]),
+      inference.outputType,
+      inference.inputs ?? null,
+      inference.onnx?.preprocess ?? null,
+    ])
+  );
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/**
+ * Two-level cache of model results: an in-memory map in front of IndexedDB.
+ * IndexedDB is best effort (it is unavailable in some private browsing
+ * modes), so its failures only cost persistence across reloads. Keys are
+ * scoped to the `model` fingerprint, so entries from another config are
+ * never read and simply expire.
+ */
+export const createResultCache = ({ ttlMs, model }: { ttlMs: number; model: string }): ResultCache => {
+  const memory = new Map<string, CachedResult>();
+  const isFresh = (entry: CachedResult) => Date.now() - entry.createdAt < ttlMs;
+
+  return {
+    async get(resultKey) {
+      const key = `${resultKey}@${model}`;
+      const cached = memory.get(key);
+      if (cached) {
+        if (isFresh(cached)) return cached;
+        memory.delete(key);
+      }
+
+      try {
+        const stored = await withStore<CachedResult | undefined>('readonly', (store) => store.get(key));
+        if (!stored) return null;
+        if (!isFresh(stored)) {
+          await withStore('readwrite', (store) => store.delete(key));
+          return null;
+        }
+        memory.set(key, stored);
+        return stored;
+      } catch (error) {
+        console.warn('Result cache read failed:', error);
+        return null;
+      }
+    },
+    async set(resultKey, predictions) {
+      const key = `${resultKey}@${model}`;
+      const entry: CachedResult = { key, predictions, createdAt: Date.now() };
+      memory.set(key, entry);
+      try {
+        await withStore('readwrite', (store) => store.put(entry));
+      } catch (error) {
+        console.warn('Result cache write failed:', error);
+      }
+      return entry;
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { SliceResult } from '@/lib/analysis';
+import { aggregateSlices } from '@/lib/series';
+
+const slice = (index: number, glioma: number, meningioma: number): SliceResult => ({
+  index,
+  label: `Slice ${index + 1}`,
+  predictions: [
+    { class: 'Glioma', confidence: glioma },
+    { class: 'Meningioma', confidence: meningioma },
+    { class: 'No Tumor', confidence: 100 - glioma - meningioma },
+  ],
+  thumbnail: '',
+});
+
+// Two slices lean towards meningioma, one is very sure of glioma
+const slices = [slice(0, 95, 5), slice(1, 20, 60), slice(2, 25, 55)];
+
+const scores = (predictions: { class: string; confidence: number }[]) =>
+  Object.fromEntries(predictions.map(({ class: className, confidence }) => [className, Number(confidence.toFixed(2))]));
+
+describe('aggregateSlices', () => {
+  it('averages each class over the slices', () => {
+    const { predictions, drivingSlices } = aggregateSlices(slices, 'mean');
+    expect(predictions.map((prediction) => prediction.class)).toEqual(['Glioma', 'Meningioma', 'No Tumor']);
+    expect(scores(predictions)).toEqual({ Glioma: 46.67, Meningioma: 40, 'No Tumor': 13.33 });
+    // Only the slice that agrees at least as strongly as the average drove it
+    expect(drivingSlices).toEqual([0]);
+  });
+
+  it('rescales the per-class maxima to sum to 100%', () => {
+    const { predictions, drivingSlices } = aggregateSlices(slices, 'max');
+    expect(scores(predictions)).toEqual({ Glioma: 54.29, Meningioma: 34.29, 'No Tumor': 11.43 });
+    expect(drivingSlices).toEqual([0]);
+  });
+
+  it('counts each slice as one vote for its top class', () => {
+    const { predictions, drivingSlices } = aggregateSlices(slices, 'majority');
+    expect(predictions[0]).toEqual({ class: 'Meningioma', confidence: (2 / 3) * 100 });
+    expect(drivingSlices).toEqual([1, 2]);
+  });
+
+  it('breaks a tied vote by mean confidence', () => {
+    const tied = [slice(0, 90, 5), slice(1, 10, 60)];
+    const { predictions, drivingSlices } = aggregateSlices(tied, 'majority');
+    expect(predictions.slice(0, 2).map((prediction) => prediction.class)).toEqual(['Glioma', 'Meningioma']);
+    expect(drivingSlices).toEqual([0]);
+  });
+
+  it('falls back to the most confident slice when none agrees strongly enough', () => {
+    // Glioma wins on average, but no slice has it as its top class
+    const spread = [slice(0, 45, 50), slice(1, 45, 0), slice(2, 45, 5)];
+    expect(aggregateSlices(spread, 'mean').drivingSlices).toEqual([0]);
+  });
+});
@@ -0,0 +1,202 @@
+import type { PredictionResult } from '@/lib/inference';
+import type { SeriesSlice, SliceResult } from '@/lib/analysis';
+import { isDicomFile } from '@/lib/dicom/file-type';
+import type { DicomMetadata } from '@/lib/dicom/parse';
+
+export type AggregationStrategy = 'mean' | 'max' | 'majority';
+
+export const aggregationStrategies: { strategy: AggregationStrategy; label: string; description: string }[] = [
+  { strategy: 'mean', label: 'Mean probability', description: 'Average confidence of each class over all slices' },
+  { strategy: 'max', label: 'Max probability', description: 'Highest confidence any single slice gave each class' },
+  { strategy: 'majority', label: 'Majority vote', description: 'Share of slices whose top prediction is each class' },
+];
+
+/** How the slices of a series were combined into a study-level result. */
+export interface SeriesSummary {
+  slices: SliceResult[];
+  aggregation: AggregationStrategy;
+  /** `index` of the slices that drove the study-level prediction. */
+  drivingSlices: number[];
+}
+
+export class SeriesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeriesError';
+  }
+}
+
+const byConfidence = (a: PredictionResult, b: PredictionResult) => b.confidence - a.confidence;
+
+const topClass = (slice: SliceResult) =>
+  slice.predictions.reduce((top, prediction) => (prediction.confidence > top.confidence ? prediction : top)).class;
+
+const confidenceOf = (slice: SliceResult, className: string) =>
+  slice.predictions.find((prediction) => prediction.class === className)?.confidence ?? 0;
+
+const mostConfident = (slices: SliceResult[], className: string) =>
+  slices.reduce((best, slice) => (confidenceOf(slice, className) > confidenceOf(best, className) ? slice : best));
+
+// Scores every class on every slice and folds the scores per class
+const classTotals = (
+  slices: SliceResult[],
+  score: (slice: SliceResult, className: string) => number,
+  combine: (a: number, b: number) => number
+) => {
+  const totals = new Map<string, number>();
+  for (const slice of slices) {
+    for (const { class: className } of slice.predictions) {
+      const value = score(slice, className);
+      totals.set(className, totals.has(className) ? combine(totals.get(className), value) : value);
+    }
+  }
+  return totals;
+};
+
+const meanConfidences = (slices: SliceResult[]) => {
+  const totals = classTotals(slices, confidenceOf, (a, b) => a + b);
+  return new Map(Array.from(totals, ([className, total]) => [className, total / slices.length]));
+};
+
+const toPredictions = (scores: Map<string, number>, tieBreak?: Map<string, number>): PredictionResult[] =>
+  Array.from(scores, ([className, confidence]) => ({ class: className, confidence })).sort(
+    (a, b) => byConfidence(a, b) || (tieBreak ? tieBreak.get(b.class) - tieBreak.get(a.class) : 0)
+  );
+
+type Aggregator = (slices: SliceResult[]) => { predictions: PredictionResult[]; drivingSlices: SliceResult[] };
+
+const aggregators: Record<AggregationStrategy, Aggregator> = {
+  // Driven by the slices that agree with the result at least as strongly as the average slice
+  mean: (slices) => {
+    const predictions = toPredictions(meanConfidences(slices));
+    const [{ class: winner, confidence }] = predictions;
+    const driving = slices.filter((slice) => topClass(slice) === winner && confidenceOf(slice, winner) >= confidence);
+    return {
+      predictions,
+      drivingSlices: driving.length > 0 ? driving : [mostConfident(slices, winner)],
+    };
+  },
+  // Maxima are rescaled to sum to 100%, so they read like any other result
+  max: (slices) => {
+    const maxima = classTotals(slices, confidenceOf, Math.max);
+    const sum = Array.from(maxima.values()).reduce((total, value) => total + value, 0) || 1;
+    const predictions = toPredictions(new Map(Array.from(maxima, ([className, value]) => [className, (value / sum) * 100])));
+    return { predictions, drivingSlices: [mostConfident(slices, predictions[0].class)] };
+  },
+  // Ties between equally voted classes go to the higher mean confidence
+  majority: (slices) => {
+    const votes = classTotals(slices, (slice, className) => (topClass(slice) === className ? 1 : 0), (a, b) => a + b);
+    const shares = new Map(Array.from(votes, ([className, count]) => [className, (count / slices.length) * 100]));
+    const predictions = toPredictions(shares, meanConfidences(slices));
+    return { predictions, drivingSlices: slices.filter((slice) => topClass(slice) === predictions[0].class) };
+  },
+};
+
+/** Combines per-slice predictions into one, sorted like the result of a single image. */
+export const aggregateSlices = (slices: SliceResult[], aggregation: AggregationStrategy) => {
+  const { predictions, drivingSlices } = aggregators[aggregation](slices);
+  return { predictions, drivingSlices: drivingSlices.map((slice) => slice.index) };
+};
+
+const THUMBNAIL_SIZE = 96;
+
+const toDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * A small JPEG data URL of an image. Unlike preview object URLs, it needs no
+ * releasing, so every slice of a series can keep one.
+ */
+export const createThumbnail = async (url: string) => {
+  const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  canvas.getContext('2d').drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return toDataUrl(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 }));
+};
+
+/** Skips the DICOMDIR index and hidden files that come along with a dropped folder. */
+export const isSliceFile = (file: File) => !file.name.startsWith('.') && file.name.toUpperCase() !== 'DICOMDIR';
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // Each call returns the next batch of entries, and an empty one at the end
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return files;
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+};
+
+/** Every file of a drop, including those inside dropped folders. */
+export const readDroppedFiles = async (dataTransfer: DataTransfer) => {
+  // The items are only readable until the drop handler yields, so the entries are taken first
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const orderDicomFiles = async (files: File[]) => {
+  const { parseDicomFile } = await import('@/lib/dicom/parse');
+  const headers: { file: File; metadata: DicomMetadata }[] = [];
+  // One at a time, so a large folder is never held in memory at once
+  for (const file of files) {
+    try {
+      const { metadata } = await parseDicomFile(new Uint8Array(await file.arrayBuffer()));
+      headers.push({ file, metadata });
+    } catch (error) {
+      throw new SeriesError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const seriesUids = new Set(headers.map(({ metadata }) => metadata.seriesInstanceUid));
+  if (seriesUids.size > 1) {
+    throw new SeriesError(`The files belong to ${seriesUids.size} different series. Upload one series at a time.`);
+  }
+
+  return headers
+    .sort(
+      (a, b) =>
+        (a.metadata.instanceNumber ?? 0) - (b.metadata.instanceNumber ?? 0) ||
+        (a.metadata.sliceLocation ?? 0) - (b.metadata.sliceLocation ?? 0) ||
+        naturalOrder.compare(a.file.name, b.file.name)
+    )
+    .map(({ file, metadata }) => ({
+      file,
+      label: metadata.instanceNumber != null ? `Image ${metadata.instanceNumber}` : file.name,
+    }));
+};
+
+/**
+ * Orders uploaded files into a series: DICOM files by instance number, and
+ * anything else by file name, with numbers compared by value.
+ */
+export const orderSeriesFiles = async (files: File[]): Promise<SeriesSlice[]> => {
+  const ordered = files.every((file) => isDicomFile(file))
+    ? await orderDicomFiles(files)
+    : [...files].sort((a, b) => naturalOrder.compare(a.name, b.name)).map((file) => ({ file, label: file.name }));
+
+  return ordered.map(({ file, label }, index) => ({ index, label, load: async () => file }));
+};
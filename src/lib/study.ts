@@ -0,0 +1,36 @@
+import type { MriSequence, PredictionResult } from '@/lib/inference';
+
+export const mriSequences: { sequence: MriSequence; label: string; description: string }[] = [
+  { sequence: 't1', label: 'T1', description: 'T1-weighted' },
+  { sequence: 't1c', label: 'T1c', description: 'T1-weighted, contrast-enhanced' },
+  { sequence: 't2', label: 'T2', description: 'T2-weighted' },
+  { sequence: 'flair', label: 'FLAIR', description: 'T2 fluid-attenuated inversion recovery' },
+];
+
+export const sequenceLabel = (sequence: MriSequence) =>
+  mriSequences.find((entry) => entry.sequence === sequence)?.label ?? sequence;
+
+/** The uploaded image of each sequence; a study needs at least one. */
+export type StudyFiles = Partial<Record<MriSequence, File>>;
+
+export interface SequenceResult {
+  sequence: MriSequence;
+  /** `null` when the model only rates the sequences together. */
+  predictions: PredictionResult[] | null;
+  /** JPEG data URL of the image as it was sent. */
+  thumbnail: string;
+}
+
+/** The sequences of a study and where the study-level prediction came from. */
+export interface StudySummary {
+  sequences: SequenceResult[];
+  /**
+   * `model` when a multi-input model rated all sequences in one request,
+   * `mean` when the per-sequence predictions were averaged.
+   */
+  combination: 'model' | 'mean';
+}
+
+/** The sequences of `files` in their usual reading order. */
+export const studySequences = (files: StudyFiles) =>
+  mriSequences.map(({ sequence }) => sequence).filter((sequence) => files[sequence]);
@@ -0,0 +1,249 @@
+/** A window over 8-bit display values: `center ± width / 2` is stretched to black…white. */
+export interface DisplayWindow {
+  center: number;
+  width: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type Colormap = 'grayscale' | 'hot' | 'jet' | 'viridis';
+
+export const colormaps: { colormap: Colormap; label: string }[] = [
+  { colormap: 'grayscale', label: 'Grayscale' },
+  { colormap: 'hot', label: 'Hot' },
+  { colormap: 'jet', label: 'Jet' },
+  { colormap: 'viridis', label: 'Viridis' },
+];
+
+/**
+ * How an image is displayed. None of it touches the pixels sent to the model,
+ * unless the user asks for the image to be analyzed as displayed.
+ */
+export interface DisplaySettings {
+  window: DisplayWindow;
+  /** Applied after the window: values above 1 brighten the mid-tones. */
+  gamma: number;
+  invert: boolean;
+  /** Grayscale keeps the colours of a colour image; the others map its luminance. */
+  colormap: Colormap;
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+/** The window that leaves every value as it is. */
+export const identityWindow: DisplayWindow = { center: 127.5, width: 255 };
+
+export const defaultDisplaySettings: DisplaySettings = {
+  window: identityWindow,
+  gamma: 1,
+  invert: false,
+  colormap: 'grayscale',
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export const MIN_GAMMA = 0.2;
+export const MAX_GAMMA = 5;
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 32;
+
+const MIN_WINDOW_WIDTH = 1;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Moves a window by a drag of `dx`, `dy` screen pixels: right widens it, down raises its center. */
+export const dragWindow = ({ center, width }: DisplayWindow, dx: number, dy: number): DisplayWindow => ({
+  center: Math.min(255, Math.max(0, center + dy)),
+  width: Math.min(512, Math.max(MIN_WINDOW_WIDTH, width + dx)),
+});
+
+/** The window's lower and upper bound, the values shown as black and white. */
+export const windowBounds = ({ center, width }: DisplayWindow) => [center - width / 2, center + width / 2] as const;
+
+export const windowBetween = (lower: number, upper: number): DisplayWindow => ({
+  center: (lower + upper) / 2,
+  width: Math.max(MIN_WINDOW_WIDTH, upper - lower),
+});
+
+/** Maps each 8-bit value through the window, the gamma and the inversion. */
+export const buildLookupTable = ({ window, gamma, invert }: Pick<DisplaySettings, 'window' | 'gamma' | 'invert'>) => {
+  const [lower] = windowBounds(window);
+  const table = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    const windowed = Math.min(1, Math.max(0, (value - lower) / window.width));
+    const mapped = windowed ** (1 / gamma) * 255;
+    table[value] = invert ? 255 - mapped : mapped;
+  }
+  return table;
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+// Samples of matplotlib's viridis, interpolated linearly in between
+const viridisStops = [
+  [68, 1, 84],
+  [72, 36, 117],
+  [65, 68, 135],
+  [53, 95, 141],
+  [42, 120, 142],
+  [33, 145, 140],
+  [34, 168, 132],
+  [68, 191, 112],
+  [122, 209, 81],
+  [189, 223, 38],
+  [253, 231, 37],
+];
+
+const colormapColor = (colormap: Colormap, x: number): [number, number, number] => {
+  switch (colormap) {
+    case 'grayscale':
+      return [x * 255, x * 255, x * 255];
+    case 'hot':
+      return [clampUnit(3 * x) * 255, clampUnit(3 * x - 1) * 255, clampUnit(3 * x - 2) * 255];
+    case 'jet':
+      return [
+        clampUnit(1.5 - Math.abs(4 * x - 3)) * 255,
+        clampUnit(1.5 - Math.abs(4 * x - 2)) * 255,
+        clampUnit(1.5 - Math.abs(4 * x - 1)) * 255,
+      ];
+    case 'viridis': {
+      const position = x * (viridisStops.length - 1);
+      const index = Math.min(viridisStops.length - 2, Math.floor(position));
+      const t = position - index;
+      const [from, to] = [viridisStops[index], viridisStops[index + 1]];
+      return [0, 1, 2].map((channel) => from[channel] + (to[channel] - from[channel]) * t) as [number, number, number];
+    }
+  }
+};
+
+/** RGB triplets for each of the 256 display values. */
+export const buildColorTable = (colormap: Colormap) => {
+  const table = new Uint8ClampedArray(256 * 3);
+  for (let value = 0; value < 256; value++) {
+    table.set(colormapColor(colormap, value / 255), value * 3);
+  }
+  return table;
+};
+
+/** A CSS gradient of the colormap, for legends and swatches. */
+export const colormapGradient = (colormap: Colormap) => {
+  const stops = [0, 0.25, 0.5, 0.75, 1].map((x) => {
+    const [r, g, b] = colormapColor(colormap, x).map(Math.round);
+    return `rgb(${r}, ${g}, ${b}) ${x * 100}%`;
+  });
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+// Rec. 601 weights, in integers so gray pixels keep their exact value
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  Math.round((data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000);
+
+/** Renders `source` with the intensity and colour settings; alpha is kept. */
+export const renderDisplay = (
+  source: ImageData,
+  settings: Pick<DisplaySettings, 'window' | 'gamma' | 'invert' | 'colormap'>
+) => {
+  const output = new ImageData(source.width, source.height);
+  const table = buildLookupTable(settings);
+  const colors = settings.colormap === 'grayscale' ? null : buildColorTable(settings.colormap);
+  const { data: input } = source;
+  const { data } = output;
+  for (let i = 0; i < input.length; i += 4) {
+    if (colors) {
+      const color = table[luminance(input, i)] * 3;
+      data[i] = colors[color];
+      data[i + 1] = colors[color + 1];
+      data[i + 2] = colors[color + 2];
+    } else {
+      data[i] = table[input[i]];
+      data[i + 1] = table[input[i + 1]];
+      data[i + 2] = table[input[i + 2]];
+    }
+    data[i + 3] = input[i + 3];
+  }
+  return output;
+};
+
+/** How many pixels have each luminance. */
+export const intensityHistogram = (source: ImageData) => {
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < source.data.length; i += 4) {
+    counts[luminance(source.data, i)]++;
+  }
+  return counts;
+};
+
+export const isDefaultDisplay = (settings: DisplaySettings) =>
+  (Object.keys(defaultDisplaySettings) as (keyof DisplaySettings)[]).every(
+    (key) => JSON.stringify(settings[key]) === JSON.stringify(defaultDisplaySettings[key])
+  );
+
+/** The image's size on screen before zooming, once rotated. */
+export const rotatedSize = (width: number, height: number, rotation: Rotation) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/** The zoom at which the whole image fits a `viewWidth` × `viewHeight` view. */
+export const fitZoom = (width: number, height: number, rotation: Rotation, viewWidth: number, viewHeight: number) => {
+  const size = rotatedSize(width, height, rotation);
+  return clampZoom(Math.min(viewWidth / size.width, viewHeight / size.height));
+};
+
+/**
+ * Image-to-view transform: the image is centred on the view, then panned,
+ * rotated, flipped and zoomed. Invert it to find the pixel under the cursor.
+ */
+export const viewTransform = (
+  image: { width: number; height: number },
+  view: { width: number; height: number },
+  { zoom, panX, panY }: { zoom: number; panX: number; panY: number },
+  { rotation, flipHorizontal, flipVertical }: Pick<DisplaySettings, 'rotation' | 'flipHorizontal' | 'flipVertical'>
+) =>
+  new DOMMatrix()
+    .translate(view.width / 2 + panX, view.height / 2 + panY)
+    .rotate(rotation)
+    .scale(zoom * (flipHorizontal ? -1 : 1), zoom * (flipVertical ? -1 : 1))
+    .translate(-image.width / 2, -image.height / 2);
+
+/** The value of a pixel as the readout shows it: one number for gray, R, G, B otherwise. */
+export const describePixel = (data: Uint8ClampedArray, index: number) => {
+  const [r, g, b] = [data[index], data[index + 1], data[index + 2]];
+  return r === g && g === b ? `${r}` : `${r}, ${g}, ${b}`;
+};
+
+const STORAGE_KEY = 'neuro-diagnose.display-settings';
+// Oldest cases are forgotten first
+const MAX_STORED_CASES = 200;
+
+type StoredSettings = Record<string, { settings: DisplaySettings; savedAt: number }>;
+
+const readStoredSettings = (): StoredSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+/** The display settings saved for a case, e.g. by its image hash; `null` if there are none. */
+export const loadDisplaySettings = (caseKey: string): DisplaySettings | null => {
+  const stored = readStoredSettings()[caseKey];
+  // Settings saved before a field existed get its default
+  return stored ? { ...defaultDisplaySettings, ...stored.settings } : null;
+};
+
+export const storeDisplaySettings = (caseKey: string, settings: DisplaySettings) => {
+  const stored = readStoredSettings();
+  stored[caseKey] = { settings, savedAt: Date.now() };
+  const kept = Object.entries(stored)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_STORED_CASES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.warn('Could not save display settings:', error);
+  }
+};
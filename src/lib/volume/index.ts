@@ -0,0 +1,4 @@
+export { isNiftiFile, NIFTI_MIME_TYPE, NiftiError, parseNifti } from './nifti';
+export { readNiftiFile } from './read-nifti';
+export { extractSlice, renderSlice, sliceAxes, sliceCount, sliceToFile, volumeWindow } from './slice';
+export type { OrientedAxis, SliceAxis, Volume, VolumeSlice } from './types';
@@ -0,0 +1,7 @@
+import type { Volume } from './types';
+
+export type NiftiWorkerRequest = { id: number; file: Blob };
+
+export type NiftiWorkerResponse =
+  | { type: 'result'; id: number; volume: Volume }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { isNiftiFile, NiftiError, parseNifti } from './nifti';
+
+interface HeaderFields {
+  dims: number[];
+  datatype: number;
+  bitpix: number;
+  pixdim?: number[];
+  sclSlope?: number;
+  sclInter?: number;
+  sformRows?: number[][];
+  littleEndian?: boolean;
+}
+
+// A single-file NIfTI-1 volume: the 348-byte header, a 4-byte extension flag, then the voxels
+const niftiFile = (
+  { dims, datatype, bitpix, pixdim = [1, 1, 1, 1], sclSlope = 0, sclInter = 0, sformRows, littleEndian = true }: HeaderFields,
+  writeVoxels: (view: DataView, offset: number) => void,
+  voxelBytes: number
+) => {
+  const bytes = new Uint8Array(352 + voxelBytes);
+  const view = new DataView(bytes.buffer);
+  view.setInt32(0, 348, littleEndian);
+  [dims.length, ...dims].forEach((dim, index) => view.setInt16(40 + index * 2, dim, littleEndian));
+  view.setInt16(70, datatype, littleEndian);
+  view.setInt16(72, bitpix, littleEndian);
+  pixdim.forEach((value, index) => view.setFloat32(76 + index * 4, value, littleEndian));
+  view.setFloat32(108, 352, littleEndian);
+  view.setFloat32(112, sclSlope, littleEndian);
+  view.setFloat32(116, sclInter, littleEndian);
+  if (sformRows) {
+    view.setInt16(254, 1, littleEndian);
+    sformRows.forEach((row, r) => row.forEach((value, c) => view.setFloat32(280 + r * 16 + c * 4, value, littleEndian)));
+  }
+  bytes.set(new TextEncoder().encode('n+1\0'), 344);
+  writeVoxels(view, 352);
+  return bytes;
+};
+
+const uint8Volume = (fields: Partial<HeaderFields> = {}) =>
+  niftiFile(
+    { dims: [2, 3, 4], datatype: 2, bitpix: 8, ...fields },
+    (view, offset) => {
+      for (let index = 0; index < 24; index++) view.setUint8(offset + index, index);
+    },
+    24
+  );
+
+describe('parseNifti', () => {
+  it('reads the dimensions, voxel size and voxels of a NIfTI-1 volume', () => {
+    const volume = parseNifti(uint8Volume({ pixdim: [1, 0.5, 0.5, 2] }));
+    expect(volume.dims).toEqual([2, 3, 4]);
+    expect(volume.spacing).toEqual([0.5, 0.5, 2]);
+    expect(Array.from(volume.data)).toEqual(Array.from({ length: 24 }, (_, index) => index));
+  });
+
+  it('applies the scaling slope and intercept', () => {
+    const volume = parseNifti(uint8Volume({ sclSlope: 2, sclInter: -1 }));
+    expect(Array.from(volume.data.slice(0, 3))).toEqual([-1, 1, 3]);
+  });
+
+  it('reads big-endian files', () => {
+    const bytes = niftiFile(
+      { dims: [1, 1, 2], datatype: 4, bitpix: 16, littleEndian: false },
+      (view, offset) => {
+        view.setInt16(offset, -300, false);
+        view.setInt16(offset + 2, 1200, false);
+      },
+      4
+    );
+    expect(Array.from(parseNifti(bytes).data)).toEqual([-300, 1200]);
+  });
+
+  it('assumes RAS voxel axes when the header has no orientation', () => {
+    expect(parseNifti(uint8Volume()).orientation).toEqual([
+      { axis: 0, flipped: false },
+      { axis: 1, flipped: false },
+      { axis: 2, flipped: false },
+    ]);
+  });
+
+  it('follows the sform to the voxel axis closest to each world axis', () => {
+    // i runs left, j runs superior, k runs anterior
+    const sformRows = [
+      [-1, 0, 0, 0],
+      [0, 0, 1, 0],
+      [0, 1, 0, 0],
+    ];
+    expect(parseNifti(uint8Volume({ sformRows })).orientation).toEqual([
+      { axis: 0, flipped: true },
+      { axis: 2, flipped: false },
+      { axis: 1, flipped: false },
+    ]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseNifti(new Uint8Array(100))).toThrow(/too short/);
+    expect(() => parseNifti(new Uint8Array(400))).toThrow(/not a NIfTI-1 or NIfTI-2 volume/);
+    expect(() => parseNifti(uint8Volume({ datatype: 128 }))).toThrow(/datatype 128 is not supported/);
+    expect(() => parseNifti(uint8Volume({ dims: [6, 4] }))).toThrow(/not a 3D volume/);
+    expect(() => parseNifti(uint8Volume({ dims: [4, 4, 4] }))).toThrow(NiftiError);
+  });
+});
+
+describe('isNiftiFile', () => {
+  it('recognises NIfTI files by extension or MIME type', () => {
+    expect(isNiftiFile({ name: 'brain.nii', type: '' })).toBe(true);
+    expect(isNiftiFile({ name: 'brain.NII.GZ', type: '' })).toBe(true);
+    expect(isNiftiFile({ name: 'volume', type: 'application/x-nifti' })).toBe(true);
+    expect(isNiftiFile({ name: 'brain.hdr', type: '' })).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Volume } from './types';
+
+export const NIFTI_MIME_TYPE = 'application/x-nifti';
+
+export class NiftiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NiftiError';
+  }
+}
+
+/** Single-file NIfTI, optionally gzipped. Analyze-style .hdr/.img pairs are not supported. */
+export const isNiftiFile = (file: { name?: string; type: string }) =>
+  file.type === NIFTI_MIME_TYPE || /\.nii(\.gz)?$/i.test(file.name ?? '');
+
+const NIFTI1_HEADER_SIZE = 348;
+const NIFTI2_HEADER_SIZE = 540;
+
+const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const gunzip = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+interface Header {
+  headerSize: number;
+  littleEndian: boolean;
+  dims: number[];
+  pixdim: number[];
+  datatype: number;
+  voxOffset: number;
+  sclSlope: number;
+  sclInter: number;
+  qformCode: number;
+  sformCode: number;
+  quatern: [number, number, number];
+  srow: number[][];
+}
+
+const detectHeader = (view: DataView) => {
+  for (const littleEndian of [true, false]) {
+    const size = view.getInt32(0, littleEndian);
+    if (size === NIFTI1_HEADER_SIZE || size === NIFTI2_HEADER_SIZE) {
+      return { version: size === NIFTI1_HEADER_SIZE ? 1 : 2, littleEndian };
+    }
+  }
+  throw new NiftiError('The file is not a NIfTI-1 or NIfTI-2 volume');
+};
+
+const readHeader = (view: DataView): Header => {
+  const { version, littleEndian } = detectHeader(view);
+  const headerSize = version === 1 ? NIFTI1_HEADER_SIZE : NIFTI2_HEADER_SIZE;
+  const int16 = (offset: number) => view.getInt16(offset, littleEndian);
+  const int64 = (offset: number) => Number(view.getBigInt64(offset, littleEndian));
+  const float32 = (offset: number) => view.getFloat32(offset, littleEndian);
+  const float64 = (offset: number) => view.getFloat64(offset, littleEndian);
+  const range = <T>(count: number, read: (index: number) => T) => Array.from({ length: count }, (_, index) => read(index));
+
+  if (version === 1) {
+    return {
+      headerSize,
+      littleEndian,
+      dims: range(8, (index) => int16(40 + index * 2)),
+      datatype: int16(70),
+      pixdim: range(8, (index) => float32(76 + index * 4)),
+      voxOffset: float32(108),
+      sclSlope: float32(112),
+      sclInter: float32(116),
+      qformCode: int16(252),
+      sformCode: int16(254),
+      quatern: [float32(256), float32(260), float32(264)],
+      srow: range(3, (row) => range(4, (column) => float32(280 + row * 16 + column * 4))),
+    };
+  }
+
+  return {
+    headerSize,
+    littleEndian,
+    datatype: int16(12),
+    dims: range(8, (index) => int64(16 + index * 8)),
+    pixdim: range(8, (index) => float64(104 + index * 8)),
+    voxOffset: int64(168),
+    sclSlope: float64(176),
+    sclInter: float64(184),
+    qformCode: view.getInt32(344, littleEndian),
+    sformCode: view.getInt32(348, littleEndian),
+    quatern: [float64(352), float64(360), float64(368)],
+    srow: range(3, (row) => range(4, (column) => float64(400 + row * 32 + column * 8))),
+  };
+};
+
+// NIFTI1 datatype codes and how to read one voxel of each
+const voxelReaders: Record<number, { bytes: number; read: (view: DataView, offset: number, le: boolean) => number }> = {
+  2: { bytes: 1, read: (view, offset) => view.getUint8(offset) },
+  4: { bytes: 2, read: (view, offset, le) => view.getInt16(offset, le) },
+  8: { bytes: 4, read: (view, offset, le) => view.getInt32(offset, le) },
+  16: { bytes: 4, read: (view, offset, le) => view.getFloat32(offset, le) },
+  64: { bytes: 8, read: (view, offset, le) => view.getFloat64(offset, le) },
+  256: { bytes: 1, read: (view, offset) => view.getInt8(offset) },
+  512: { bytes: 2, read: (view, offset, le) => view.getUint16(offset, le) },
+  768: { bytes: 4, read: (view, offset, le) => view.getUint32(offset, le) },
+};
+
+/** Rotation part of the qform (NIfTI-1 quaternion convention), scaled by the voxel size. */
+const qformMatrix = ({ quatern: [b, c, d], pixdim }: Header) => {
+  const a = Math.sqrt(Math.max(0, 1 - (b * b + c * c + d * d)));
+  const qfac = pixdim[0] < 0 ? -1 : 1;
+  const [dx, dy, dz] = [pixdim[1], pixdim[2], pixdim[3] * qfac];
+  return [
+    [(a * a + b * b - c * c - d * d) * dx, 2 * (b * c - a * d) * dy, 2 * (b * d + a * c) * dz],
+    [2 * (b * c + a * d) * dx, (a * a + c * c - b * b - d * d) * dy, 2 * (c * d - a * b) * dz],
+    [2 * (b * d - a * c) * dx, 2 * (c * d + a * b) * dy, (a * a + d * d - c * c - b * b) * dz],
+  ];
+};
+
+/**
+ * For each world axis (x = right, y = anterior, z = superior), the voxel axis
+ * that runs closest to it and whether it runs the same way.
+ */
+const orientation = (header: Header): Volume['orientation'] => {
+  const matrix =
+    header.sformCode > 0 ? header.srow.map((row) => row.slice(0, 3)) : header.qformCode > 0 ? qformMatrix(header) : null;
+  if (!matrix) {
+    // No orientation in the header: assume the voxel axes already are RAS
+    return [
+      { axis: 0, flipped: false },
+      { axis: 1, flipped: false },
+      { axis: 2, flipped: false },
+    ];
+  }
+
+  const used = new Set<number>();
+  return [0, 1, 2].map((world) => {
+    let best = -1;
+    for (let axis = 0; axis < 3; axis++) {
+      if (!used.has(axis) && (best < 0 || Math.abs(matrix[world][axis]) > Math.abs(matrix[world][best]))) {
+        best = axis;
+      }
+    }
+    used.add(best);
+    return { axis: best, flipped: matrix[world][best] < 0 };
+  }) as Volume['orientation'];
+};
+
+/** Parses an uncompressed NIfTI file. Only the first volume of a 4D series is read. */
+export const parseNifti = (bytes: Uint8Array): Volume => {
+  if (bytes.byteLength < NIFTI1_HEADER_SIZE) {
+    throw new NiftiError('The file is too short to be a NIfTI volume');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = readHeader(view);
+
+  const reader = voxelReaders[header.datatype];
+  if (!reader) {
+    throw new NiftiError(`NIfTI datatype ${header.datatype} is not supported`);
+  }
+  if (header.dims[0] < 3) {
+    throw new NiftiError('The NIfTI file is not a 3D volume');
+  }
+
+  const dims: Volume['dims'] = [header.dims[1], header.dims[2], header.dims[3]];
+  const voxelCount = dims[0] * dims[1] * dims[2];
+  // Single-file volumes start after the header and its 4-byte extension flag
+  const offset = header.voxOffset || header.headerSize + 4;
+  if (offset + voxelCount * reader.bytes > bytes.byteLength) {
+    throw new NiftiError('The NIfTI file is shorter than its dimensions require');
+  }
+
+  // A zero (or unset) slope means the stored values are used as they are
+  const scaled = Number.isFinite(header.sclSlope) && header.sclSlope !== 0;
+  const slope = scaled ? header.sclSlope : 1;
+  const intercept = scaled && Number.isFinite(header.sclInter) ? header.sclInter : 0;
+  const data = new Float32Array(voxelCount);
+  for (let index = 0; index < voxelCount; index++) {
+    data[index] = reader.read(view, offset + index * reader.bytes, header.littleEndian) * slope + intercept;
+  }
+
+  return {
+    dims,
+    spacing: [Math.abs(header.pixdim[1]) || 1, Math.abs(header.pixdim[2]) || 1, Math.abs(header.pixdim[3]) || 1],
+    orientation: orientation(header),
+    data,
+  };
+};
+
+/** Reads a `.nii` or `.nii.gz` file on the calling thread; the app uses `readNiftiFile`, which runs it in a worker. */
+export const decodeNiftiFile = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    return parseNifti(isGzip(bytes) ? await gunzip(bytes) : bytes);
+  } catch (error) {
+    if (error instanceof NiftiError) throw error;
+    throw new NiftiError(`The NIfTI file could not be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
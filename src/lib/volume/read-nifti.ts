@@ -0,0 +1,51 @@
+import { NiftiError } from './nifti';
+import type { NiftiWorkerRequest, NiftiWorkerResponse } from './nifti-protocol';
+import type { Volume } from './types';
+
+interface PendingRead {
+  resolve: (volume: Volume) => void;
+  reject: (error: Error) => void;
+}
+
+const pending = new Map<number, PendingRead>();
+let worker: Worker | null = null;
+let nextId = 0;
+
+const getWorker = () => {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker(new URL('../../workers/nifti.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data: message }: MessageEvent<NiftiWorkerResponse>) => {
+    const read = pending.get(message.id);
+    if (!read) return;
+
+    pending.delete(message.id);
+    if (message.type === 'result') {
+      read.resolve(message.volume);
+    } else {
+      read.reject(new NiftiError(message.message));
+    }
+  };
+  worker.onerror = (event) => {
+    pending.forEach(({ reject }) => reject(new NiftiError(event.message || 'The volume worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * Reads a `.nii` or `.nii.gz` file off the main thread: unzipping and
+ * converting a large volume would otherwise freeze the page for seconds.
+ */
+export const readNiftiFile = (file: Blob) =>
+  new Promise<Volume>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: NiftiWorkerRequest = { id, file };
+    getWorker().postMessage(request);
+  });
@@ -0,0 +1,96 @@
+import type { DicomWindow } from '@/lib/dicom';
+import { applyWindow } from '@/lib/dicom/window';
+import type { SliceAxis, Volume, VolumeSlice } from './types';
+
+export const sliceAxes: SliceAxis[] = ['axial', 'coronal', 'sagittal'];
+
+// World axes: 0 = right, 1 = anterior, 2 = superior. Both display axes run
+// against the world axis, which gives the radiological convention: patient
+// right on screen left, anterior and superior at the top.
+const views: Record<SliceAxis, { fixed: number; column: number; row: number }> = {
+  axial: { fixed: 2, column: 0, row: 1 },
+  coronal: { fixed: 1, column: 0, row: 2 },
+  sagittal: { fixed: 0, column: 1, row: 2 },
+};
+
+const HISTOGRAM_BINS = 1024;
+
+const axisLength = (volume: Volume, world: number) => volume.dims[volume.orientation[world].axis];
+
+/** Number of slices along `axis`. */
+export const sliceCount = (volume: Volume, axis: SliceAxis) => axisLength(volume, views[axis].fixed);
+
+/** Slice `index` along `axis`, counted from the right, posterior or inferior end. */
+export const extractSlice = (volume: Volume, axis: SliceAxis, index: number): VolumeSlice => {
+  const { fixed, column, row } = views[axis];
+  const strides = [1, volume.dims[0], volume.dims[0] * volume.dims[1]];
+  const width = axisLength(volume, column);
+  const height = axisLength(volume, row);
+
+  // Offset of voxel `position` along a world axis, in world order
+  const offsetAlong = (world: number, position: number) => {
+    const { axis: voxelAxis, flipped } = volume.orientation[world];
+    const voxel = flipped ? volume.dims[voxelAxis] - 1 - position : position;
+    return voxel * strides[voxelAxis];
+  };
+
+  const base = offsetAlong(fixed, index);
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = base + offsetAlong(row, height - 1 - y);
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = volume.data[rowOffset + offsetAlong(column, width - 1 - x)];
+    }
+  }
+
+  const spacingOf = (world: number) => volume.spacing[volume.orientation[world].axis];
+  return { width, height, samplesPerPixel: 1, data, pixelAspect: spacingOf(row) / spacingOf(column) };
+};
+
+/** A window spanning the 0.5th to 99.5th percentile, so a few hot voxels do not wash out the image. */
+export const volumeWindow = ({ data }: Volume): DicomWindow => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of data) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (max <= min) {
+    return { center: min, width: 1 };
+  }
+
+  const histogram = new Uint32Array(HISTOGRAM_BINS);
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  for (const value of data) {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / binWidth))]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      seen += histogram[bin];
+      if (seen >= data.length * fraction) return min + bin * binWidth;
+    }
+    return max;
+  };
+
+  const lower = percentile(0.005);
+  const upper = Math.max(percentile(0.995), lower + binWidth);
+  return { center: (lower + upper) / 2, width: upper - lower };
+};
+
+/** Renders a slice to RGBA, stretched so its pixels are square. */
+export const renderSlice = (slice: VolumeSlice, window: DicomWindow) => {
+  const source = new OffscreenCanvas(slice.width, slice.height);
+  source.getContext('2d').putImageData(new ImageData(applyWindow(slice, window), slice.width, slice.height), 0, 0);
+
+  const canvas = new OffscreenCanvas(slice.width, Math.max(1, Math.round(slice.height * slice.pixelAspect)));
+  canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/** A lossless PNG of one slice, ready for the regular image pipeline. */
+export const sliceToFile = async (slice: VolumeSlice, window: DicomWindow, name: string) => {
+  const blob = await renderSlice(slice, window).convertToBlob({ type: 'image/png' });
+  return new File([blob], name, { type: 'image/png' });
+};
@@ -0,0 +1,27 @@
+export type SliceAxis = 'axial' | 'coronal' | 'sagittal';
+
+export interface OrientedAxis {
+  /** Voxel axis (0 = i, 1 = j, 2 = k). */
+  axis: number;
+  /** Whether the voxel axis runs against the world axis. */
+  flipped: boolean;
+}
+
+/** A scalar 3D volume, indexed `i + j * dims[0] + k * dims[0] * dims[1]`. */
+export interface Volume {
+  dims: [number, number, number];
+  /** Voxel size in mm along each voxel axis. */
+  spacing: [number, number, number];
+  /** The voxel axis closest to each world axis (right, anterior, superior). */
+  orientation: [OrientedAxis, OrientedAxis, OrientedAxis];
+  data: Float32Array;
+}
+
+export interface VolumeSlice {
+  width: number;
+  height: number;
+  samplesPerPixel: 1;
+  data: Float32Array;
+  /** Physical height of a pixel relative to its width. */
+  pixelAspect: number;
+}
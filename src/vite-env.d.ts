@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_INFERENCE_PROVIDER?: string;
+  readonly VITE_INFERENCE_URL?: string;
+  readonly VITE_INFERENCE_ENDPOINT?: string;
+  readonly VITE_ONNX_MODEL_URL?: string;
+  readonly VITE_MAX_FILE_SIZE_MB?: string;
+  readonly VITE_ACCEPTED_MIME_TYPES?: string;
+}
@@ -0,0 +1,150 @@
+import { deidentifyDicom, hasDicomPreamble, isDicomFile, readDicomImage, type DeidentificationOptions } from '@/lib/dicom';
+import type { DicomInfo, ImagePipelineRequest, ImagePipelineResponse } from '@/lib/image-pipeline-protocol';
+import { assessDomainHeuristics } from '@/lib/domain-check';
+import { findImageMetadata } from '@/lib/image-metadata';
+import { assessImageQuality } from '@/lib/image-quality';
+import {
+  cropPixels,
+  drawPreprocessed,
+  preprocessedSize,
+  type PreprocessingPipeline,
+  type PreprocessingRecord,
+} from '@/lib/preprocessing';
+import { applyRedaction, type RedactionRegion } from '@/lib/redaction';
+import { renderDisplay, rotatedSize, viewTransform, type DisplaySettings } from '@/lib/viewer';
+
+const post = (message: ImagePipelineResponse) => self.postMessage(message);
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// DICOM pixels are windowed to 8 bits, which is what both the preview and
+// the model work with. The header is de-identified first, so the original
+// identifiers never reach the metadata shown or stored.
+const decodeDicom = async (bytes: ArrayBuffer, deidentification: DeidentificationOptions | null) => {
+  const deidentified = deidentification && (await deidentifyDicom(new Uint8Array(bytes), deidentification));
+  const image = await readDicomImage(deidentified?.bytes ?? new Uint8Array(bytes));
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  canvas.getContext('2d').putImageData(new ImageData(image.pixels, image.width, image.height), 0, 0);
+  const dicom: DicomInfo = {
+    metadata: image.metadata,
+    window: image.window,
+    deidentification: deidentified?.changes ?? null,
+  };
+  return { source: canvas, dicom };
+};
+
+// Raster images are re-encoded from their decoded pixels, which leaves
+// EXIF, XMP, text chunks and the like behind; they are listed for the user
+const decodeRaster = async (file: Blob, bytes: ArrayBuffer) => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d').drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { source: canvas, strippedMetadata: findImageMetadata(new Uint8Array(bytes)) };
+};
+
+// Draws over the decoded pixels, so neither the preview nor the payload
+// (re-encoded from the canvas) holds what was under the regions
+const redact = (canvas: OffscreenCanvas, regions: RedactionRegion[]) => {
+  applyRedaction(canvas.getContext('2d'), canvas.width, canvas.height, regions);
+  return canvas;
+};
+
+// Crops and pads the redacted pixels, and records the sizes it worked with
+const preprocess = (source: OffscreenCanvas, pipeline: PreprocessingPipeline) => {
+  const size = preprocessedSize(source.width, source.height, pipeline);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  drawPreprocessed(source, canvas, pipeline);
+  const record: PreprocessingRecord = {
+    ...pipeline,
+    sourceWidth: source.width,
+    sourceHeight: source.height,
+    cropPixels: pipeline.crop && cropPixels(pipeline.crop, source.width, source.height),
+    width: size.width,
+    height: size.height,
+  };
+  return { canvas, record };
+};
+
+// Only on request: the image is sent the way the viewer shows it, colours,
+// rotation and flips included
+const applyDisplay = (source: OffscreenCanvas, settings: DisplaySettings) => {
+  const context = source.getContext('2d');
+  context.putImageData(renderDisplay(context.getImageData(0, 0, source.width, source.height), settings), 0, 0);
+  const size = rotatedSize(source.width, source.height, settings.rotation);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const output = canvas.getContext('2d');
+  output.setTransform(viewTransform(source, size, { zoom: 1, panX: 0, panY: 0 }, settings));
+  output.drawImage(source, 0, 0);
+  return canvas;
+};
+
+self.onmessage = async ({ data: request }: MessageEvent<ImagePipelineRequest>) => {
+  const { id, file, fileName, previewMaxSize, deidentification, redaction, preprocessing, display } = request;
+
+  try {
+    post({ type: 'progress', id, stage: 'decoding' });
+    const bytes = await file.arrayBuffer();
+    const isDicom = hasDicomPreamble(new Uint8Array(bytes)) || isDicomFile({ name: fileName, type: file.type });
+    const decoded = isDicom
+      ? { ...(await decodeDicom(bytes, deidentification)), strippedMetadata: null }
+      : { ...(await decodeRaster(file, bytes)), dicom: null };
+    const { dicom, strippedMetadata } = decoded;
+    if (redaction.length > 0) {
+      redact(decoded.source, redaction);
+    }
+    const preprocessed = preprocessing && preprocess(decoded.source, preprocessing);
+    const cropped = preprocessed?.canvas ?? decoded.source;
+    const source = display ? applyDisplay(cropped, display) : cropped;
+    const { width, height } = source;
+
+    // On exactly the pixels the model would receive
+    post({ type: 'progress', id, stage: 'quality' });
+    const pixels = source.getContext('2d').getImageData(0, 0, width, height);
+    const quality = assessImageQuality(pixels);
+    const domain = assessDomainHeuristics(pixels);
+
+    post({ type: 'progress', id, stage: 'hashing' });
+    let hash = toHex(await crypto.subtle.digest('SHA-256', bytes));
+    // A redacted, cropped or restyled image gets its own results, one per set of changes
+    const salt = [
+      redaction.length > 0 ? JSON.stringify(redaction) : '',
+      preprocessing ? JSON.stringify(preprocessing) : '',
+      display ? JSON.stringify(display) : '',
+    ].join('');
+    if (salt) {
+      hash = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(hash + salt)));
+    }
+
+    post({ type: 'progress', id, stage: 'preview' });
+    const scale = Math.min(1, previewMaxSize / Math.max(width, height));
+    const canvas = new OffscreenCanvas(Math.round(width * scale), Math.round(height * scale));
+    canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+    const preview = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 });
+
+    // The model receives a lossless PNG of the decoded pixels, never the
+    // original file; only the preview is downscaled
+    post({ type: 'progress', id, stage: 'payload' });
+    const payload = await source.convertToBlob({ type: 'image/png' });
+
+    post({
+      type: 'result',
+      id,
+      hash,
+      width,
+      height,
+      preview,
+      payload,
+      dicom,
+      strippedMetadata,
+      quality,
+      domain,
+      preprocessing: preprocessed?.record ?? null,
+    });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,14 @@
+import { decodeNiftiFile } from '@/lib/volume/nifti';
+import type { NiftiWorkerRequest, NiftiWorkerResponse } from '@/lib/volume/nifti-protocol';
+
+const post = (message: NiftiWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async ({ data: { id, file } }: MessageEvent<NiftiWorkerRequest>) => {
+  try {
+    const volume = await decodeNiftiFile(file);
+    // The voxels are moved, not copied: a volume can run to hundreds of megabytes
+    post({ type: 'result', id, volume }, [volume.data.buffer]);
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,69 @@
+import * as ort from 'onnxruntime-web/wasm';
+import type { OnnxWorkerRequest, OnnxWorkerResponse } from '@/lib/inference/onnx-protocol';
+import { tensorShape, toInputTensorData } from '@/lib/inference/preprocess';
+import type { OnnxConfig } from '@/lib/inference';
+
+let session: { modelUrl: string; session: Promise<ort.InferenceSession> } | null = null;
+
+const post = (message: OnnxWorkerResponse) => self.postMessage(message);
+
+const loadSession = (config: OnnxConfig) => {
+  if (session?.modelUrl !== config.modelUrl) {
+    if (config.wasmPaths) {
+      ort.env.wasm.wasmPaths = config.wasmPaths;
+    }
+    // Threads need cross-origin isolation, which static hosts rarely provide
+    ort.env.wasm.numThreads = 1;
+
+    const created = ort.InferenceSession.create(config.modelUrl, { executionProviders: ['wasm'] });
+    session = { modelUrl: config.modelUrl, session: created };
+    created.catch(() => {
+      if (session?.session === created) session = null;
+    });
+  }
+  return session.session;
+};
+
+const readPixels = async (image: Blob, size: number) => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(size, size);
+  const context = canvas.getContext('2d');
+  context.drawImage(bitmap, 0, 0, size, size);
+  bitmap.close();
+  return context.getImageData(0, 0, size, size).data;
+};
+
+// Runs go through one at a time, as the session is not safe to run
+// concurrently; a request cancelled while it waits is skipped
+let queue = Promise.resolve();
+const waiting = new Set<number>();
+
+const predict = async (request: Extract<OnnxWorkerRequest, { type: 'predict' }>) => {
+  const { id, config } = request;
+
+  try {
+    post({ type: 'progress', id, stage: 'connecting' });
+    const model = await loadSession(config);
+
+    post({ type: 'progress', id, stage: 'processing' });
+    const pixels = await readPixels(request.image, config.preprocess.inputSize);
+    const input = new ort.Tensor('float32', toInputTensorData(pixels, config.preprocess), tensorShape(config.preprocess));
+
+    const outputs = await model.run({ [config.inputName ?? model.inputNames[0]]: input });
+    const output = outputs[config.outputName ?? model.outputNames[0]];
+
+    post({ type: 'result', id, scores: Array.from(output.data as Float32Array) });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+self.onmessage = ({ data: request }: MessageEvent<OnnxWorkerRequest>) => {
+  if (request.type === 'cancel') {
+    waiting.delete(request.id);
+    return;
+  }
+
+  waiting.add(request.id);
+  queue = queue.then(() => (waiting.delete(request.id) ? predict(request) : undefined));
+};